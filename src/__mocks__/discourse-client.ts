@@ -1,9 +1,18 @@
 
 import { User } from "../model/user"
+import { Badge } from "../model/badge"
+import { Category } from "../model/category"
+import { UserField } from "../model/user-field"
 import { Group } from "../model/group"
+import { GroupUpdate } from "../model/group-update"
 import { Config } from "../model/config"
+import { UserDirectory } from "../model/user-directory"
 import user from "../http/__mocks__/user.json"
 import groupListResponse from "../http/__mocks__/group-list-response.json"
+import groupMembers from "../http/__mocks__/group-members.json"
+import badgeListResponse from "../http/__mocks__/badge-list-response.json"
+import categoryResponse from "../http/__mocks__/category-response.json"
+import userFieldsResponse from "../http/__mocks__/user-fields-response.json"
 import crypto from "crypto"
 
 
@@ -15,6 +24,8 @@ export class DiscourseClient {
     private readonly apiUsername?: string
     private readonly baseUrl?: string
     private readonly primaryGroup?: string
+    readonly pageSize = 5
+    readonly maxConcurrency = 2
 
 
     constructor(config: Config) {}
@@ -42,18 +53,16 @@ export class DiscourseClient {
     }
 
     /**
-     * Delete a user by identity.
-     * @param identity the id of the user.
+     * Delete a user with the configured strategy.
+     * @param user the user to delete.
      * @returns empty struct if response is 2XX
      */
-    async deleteUser(identity: string): Promise<any> {
+    async deleteUser(user: User): Promise<any> {
         return {}
     }
 
-    async getUsers(): Promise<User[]> {
-        let users: any = []
-        users.push(user["/admin/users/100.json"])
-        return users
+    async *listScopeUsers(): AsyncGenerator<User> {
+        yield <any>user["/admin/users/100.json"]
     }
 
     private async getGroupMembers(groupname: string): Promise<User[]> {
@@ -63,6 +72,14 @@ export class DiscourseClient {
         return users
     }
 
+    async getGroupOwnerships(): Promise<Map<number, Group[]>> {
+        return new Map([[100, [{ "id": 1, "name": "admins" }]]])
+    }
+
+    async getUserEmails(): Promise<Map<number, string>> {
+        return new Map([[100, "test.test@test.com"]])
+    }
+
     private async getUserEmailAddress(username: string): Promise<string> {
         return "test@test.com"
     }
@@ -92,12 +109,41 @@ export class DiscourseClient {
      * @param identity the numeric ID of the user represented as a string.
      * @returns the user.
      */
-    async getUser(identity: string): Promise<User> {
+    async disableUser(user: User): Promise<boolean> {
+        return true
+    }
+
+    async enableUser(user: User): Promise<boolean> {
+        return true
+    }
+
+    async unlockUser(user: User): Promise<boolean> {
+        return true
+    }
+
+    async silenceUserFor(user: User, reason: string, durationDays = 0, message?: string): Promise<boolean> {
+        return true
+    }
+
+    async unsilenceUser(userId: string): Promise<boolean> {
+        return true
+    }
+
+    async forgotPassword(username?: string): Promise<boolean> {
+        return true
+    }
+
+    async getUser(identity: string, directory?: UserDirectory): Promise<User> {
         let users: any
-        users = user["/admin/users/1305.json"]
+        users = (<any>user)[`/admin/users/${identity}.json`] ?? user["/admin/users/1305.json"]
         return users
     }
 
+    async getUserByExternalId(externalId: string, directory?: UserDirectory): Promise<User> {
+        const found = Object.values(user).find((u: any) => externalId != null && u.single_sign_on_record?.external_id === externalId)
+        return <any>(found ? { ...found, external_id: externalId } : user["/admin/users/1305.json"])
+    }
+
     /**
     * Retrieve a single user by username.
     * @param username the username of the user
@@ -123,6 +169,10 @@ export class DiscourseClient {
         return [groups]
     }
 
+    async getGroupOwners(name: string): Promise<User[]> {
+        return <any>groupMembers.owners
+    }
+
     /**
      * Get a single group by ID.  The ID is the name of the group not the numeric ID.
      * @param name the name of the group
@@ -132,4 +182,44 @@ export class DiscourseClient {
         let group: any = groupListResponse.groups[0]
         return group
     }
+
+    async createGroup(group: GroupUpdate): Promise<Group> {
+        return await this.getGroup(group.name!)
+    }
+
+    async updateGroup(origGroup: Group, group: GroupUpdate): Promise<Group> {
+        return await this.getGroup(origGroup.name)
+    }
+
+    async deleteGroup(groupId: number): Promise<boolean> {
+        return true
+    }
+
+    async getBadges(): Promise<Badge[]> {
+        return <any>badgeListResponse.badges
+    }
+
+    async getBadge(badgeId: number): Promise<Badge> {
+        return <any>badgeListResponse.badges[1]
+    }
+
+    async getStaffActionTargetIds(since: string): Promise<Set<number>> {
+        return new Set()
+    }
+
+    async getBadgeGrants(): Promise<Map<number, Badge[]>> {
+        return new Map([[100, [{ "id": 1, "name": "Basic" }]]])
+    }
+
+    async getCategories(): Promise<Category[]> {
+        return Object.values(categoryResponse).map(response => <any>response.category)
+    }
+
+    async getCategory(categoryId: number): Promise<Category> {
+        return <any>(<any>categoryResponse)[`/c/${categoryId}/show.json`].category
+    }
+
+    async getUserFields(): Promise<UserField[]> {
+        return userFieldsResponse.user_fields
+    }
 }
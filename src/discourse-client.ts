@@ -4,17 +4,73 @@ import { Group } from "./model/group"
 import { GroupListResponse } from "./model/group-list-response"
 import { GroupResponse } from "./model/group-response"
 import { GroupMembers } from "./model/group-members"
+import { GroupUpdate } from "./model/group-update"
+import { GroupUser } from "./model/group-user"
 import { UserEmail } from "./model/user-email"
 import { UserUpdateResponse } from "./model/user-update-response"
+import { UserCreateResponse } from "./model/user-create-response"
+import { UsernameSettings } from "./model/username-settings"
+import { SiteSettingsResponse } from "./model/site-settings-response"
+import { CheckUsernameResponse } from "./model/check-username-response"
+import { AboutResponse } from "./model/about-response"
+import { DirectoryItem } from "./model/directory-item"
+import { DirectoryItemsResponse } from "./model/directory-items-response"
+import { StaffActionLogsResponse } from "./model/staff-action-logs-response"
 import { UserUpdate } from "./model/user-update"
 import { UserUsernameResponse } from "./model/user-username-response"
-import { Config } from "./model/config"
+import { Config, DeleteStrategy } from "./model/config"
+import { UserDirectory } from "./model/user-directory"
+import { Badge } from "./model/badge"
+import { BadgeListResponse } from "./model/badge-list-response"
+import { BadgeResponse } from "./model/badge-response"
+import { UserBadge } from "./model/user-badge"
+import { UserBadgesResponse } from "./model/user-badges-response"
+import { Category } from "./model/category"
+import { CategoryListResponse } from "./model/category-list-response"
+import { CategoryResponse } from "./model/category-response"
+import { UserField } from "./model/user-field"
+import { UserFieldsResponse } from "./model/user-fields-response"
 import { HTTP } from "./http/http"
 import { HTTPFactory } from "./http/http-factory"
+import { normalizeBaseUrl } from "./http/base-url"
 import crypto from "crypto"
 import FormData from "form-data"
-import { AxiosError } from "axios"
 import { InvalidConfigurationError } from "./errors/invalid-configuration-error"
+import { DeleteRefusedError } from "./errors/delete-refused-error"
+import { NotFoundError } from "./errors/not-found-error"
+import { ConflictError } from "./errors/conflict-error"
+import { ValidationError } from "./errors/validation-error"
+import { AuthorizationError } from "./errors/authorization-error"
+import { ServerError } from "./errors/server-error"
+import { RateLimitedError } from "./errors/rate-limited-error"
+import { DiscourseError } from "./errors/discourse-error"
+import { fromFieldErrors, toDiscourseError } from "./errors/discourse-error-mapper"
+import { WorkerPool } from "./tools/worker-pool"
+import { UsernameGenerator } from "./tools/username-generator"
+import { logger } from "./tools/logger"
+
+// Discourse's automatic groups: everyone, admins, moderators, staff and trust_level_0 to trust_level_4
+const AUTOMATIC_GROUP_IDS = [0, 1, 2, 3, 10, 11, 12, 13, 14]
+
+// The scopes a scoped API key needs for the operations of the connector.  Global keys have every scope.
+const REQUIRED_API_SCOPES = ['users:list', 'users:show', 'users:check_emails', 'users:create', 'users:update', 'users:delete',
+    'users:anonymize', 'users:suspend', 'groups:manage_groups', 'groups:administer_groups', 'badges:list_user_badges',
+    'badges:assign_badge_to_user', 'badges:revoke_badge_from_user', 'categories:list', 'categories:show']
+
+// A category id that no category has, so that checking the categories:show scope reads nothing.
+const SCOPE_CHECK_CATEGORY_ID = 2147483647
+
+// How long after their creation users are looked up among the newest users when adopting them by employee id
+const RECENT_USERS_HOURS = 24
+
+// How many staff action logs Discourse returns per page, at most
+const STAFF_ACTION_LOGS_PAGE_SIZE = 200
+
+// How many candidate usernames are checked before giving up on creating a user.
+const MAX_USERNAME_ATTEMPTS = 20
+
+// Suspensions ending further away are indefinite, like the ones of the disable strategy or "forever" suspensions.
+const INDEFINITE_SUSPENSION_YEARS = 100
 
 /**
  * DiscourseClient is the client that communicates with Discourse APIs.
@@ -23,8 +79,28 @@ export class DiscourseClient {
     private readonly apiKey?: string
     private readonly apiUsername?: string
     private readonly baseUrl?: string
-    private readonly primaryGroup: string
+    private readonly aggregationScope: 'groups' | 'active' | 'all'
+    private readonly aggregationGroups: string[]
+    private readonly excludeBots: boolean
+    private readonly excludeSystemUser: boolean
+    private readonly excludeUsernamePattern?: RegExp
     private readonly employeeIdFieldId: string
+    private readonly lockTrustLevel: boolean
+    private readonly ssoSecret?: string
+    private readonly createPolicy: 'fail' | 'adopt' | 'claimStaged'
+    private readonly usernamePatterns?: string[]
+    private usernameSettings?: UsernameSettings
+    private readonly disableStrategy: 'suspend' | 'deactivate' | 'silence'
+    private readonly disableDurationDays: number
+    private readonly disableReason: string
+    private readonly disableMessage?: string
+    private readonly deleteStrategy: DeleteStrategy
+    private readonly deleteFallback: DeleteStrategy | 'fail'
+    private readonly deleteBlockEmail: boolean
+    private readonly deleteBlockIp: boolean
+    private readonly deleteBlockUrls: boolean
+    readonly pageSize: number
+    readonly maxConcurrency: number
     httpClient: HTTP;
 
     constructor(config: Config) {
@@ -39,15 +115,35 @@ export class DiscourseClient {
             throw new InvalidConfigurationError('apiUsername must be provided from config')
         }
 
-        this.baseUrl = config.baseUrl
-        if (this.baseUrl == null) {
+        if (config.baseUrl == null) {
             throw new InvalidConfigurationError('baseUrl must be provided from config')
         }
+        try {
+            this.baseUrl = normalizeBaseUrl(config.baseUrl)
+        } catch (error) {
+            throw new InvalidConfigurationError(`Invalid baseUrl: ${error}`)
+        }
 
-        if (config.primaryGroup == undefined) {
+        this.aggregationScope = config.aggregationScope ?? 'groups'
+        if (!['groups', 'active', 'all'].includes(this.aggregationScope)) {
+            throw new InvalidConfigurationError(`Invalid aggregationScope: ${this.aggregationScope}`)
+        }
+
+        this.aggregationGroups = [config.primaryGroup, ...(config.additionalGroups ?? [])]
+            .filter((group): group is string => group != null && group.trim() !== '')
+            .map(group => group.trim())
+        if (this.aggregationScope == 'groups' && this.aggregationGroups.length == 0) {
             throw new InvalidConfigurationError('primaryGroup must be provided from config')
-        } else {
-            this.primaryGroup = config.primaryGroup
+        }
+
+        this.excludeBots = config.excludeBots ?? false
+        this.excludeSystemUser = config.excludeSystemUser ?? false
+        if (config.excludeUsernamePattern) {
+            try {
+                this.excludeUsernamePattern = new RegExp(config.excludeUsernamePattern)
+            } catch (error) {
+                throw new InvalidConfigurationError(`Invalid excludeUsernamePattern: ${error}`)
+            }
         }
 
         if (config.employeeIdFieldId == undefined) {
@@ -56,29 +152,348 @@ export class DiscourseClient {
             this.employeeIdFieldId = config.employeeIdFieldId
         }
 
+        this.lockTrustLevel = config.lockTrustLevel ?? false
+
+        if (config.ssoProvisioning) {
+            if (!config.ssoSecret) {
+                throw new InvalidConfigurationError('ssoSecret must be provided from config when ssoProvisioning is enabled')
+            }
+            this.ssoSecret = config.ssoSecret
+        }
+
+        this.createPolicy = config.createPolicy ?? 'fail'
+        if (!['fail', 'adopt', 'claimStaged'].includes(this.createPolicy)) {
+            throw new InvalidConfigurationError(`Invalid createPolicy: ${this.createPolicy}`)
+        }
+
+        if (config.usernameNormalization) {
+            this.usernamePatterns = (config.usernamePatterns ?? []).map(pattern => pattern.trim()).filter(pattern => pattern !== '')
+            if (this.usernamePatterns.length == 0) {
+                this.usernamePatterns = ['{username}', '{username}{n}']
+            }
+        }
+
+        this.disableStrategy = config.disableStrategy ?? 'suspend'
+        if (!['suspend', 'deactivate', 'silence'].includes(this.disableStrategy)) {
+            throw new InvalidConfigurationError(`Invalid disableStrategy: ${this.disableStrategy}`)
+        }
+        this.disableDurationDays = config.disableDurationDays ?? 0
+        if (!(this.disableDurationDays >= 0)) {
+            throw new InvalidConfigurationError('disableDurationDays must be a positive number or 0')
+        }
+        this.disableReason = config.disableReason || 'User is disabled in SailPoint IdentityNow'
+        // Discourse emails the user when a message is provided.
+        if (config.disableNotifyUser) {
+            this.disableMessage = config.disableMessage || this.disableReason
+        }
+
+        const deleteStrategies = ['delete', 'deleteWithPosts', 'anonymize', 'deactivate']
+        this.deleteStrategy = config.deleteStrategy ?? 'delete'
+        if (!deleteStrategies.includes(this.deleteStrategy)) {
+            throw new InvalidConfigurationError(`Invalid deleteStrategy: ${this.deleteStrategy}`)
+        }
+        this.deleteFallback = config.deleteFallback ?? 'deactivate'
+        if (![...deleteStrategies, 'fail'].includes(this.deleteFallback)) {
+            throw new InvalidConfigurationError(`Invalid deleteFallback: ${this.deleteFallback}`)
+        }
+        this.deleteBlockEmail = config.deleteBlockEmail ?? false
+        this.deleteBlockIp = config.deleteBlockIp ?? false
+        this.deleteBlockUrls = config.deleteBlockUrls ?? false
+
+        this.pageSize = config.pageSize ?? 50
+        if (!(this.pageSize >= 1)) {
+            throw new InvalidConfigurationError('pageSize must be a positive number')
+        }
+
+        this.maxConcurrency = config.maxConcurrency ?? 5
+        if (!(this.maxConcurrency >= 1)) {
+            throw new InvalidConfigurationError('maxConcurrency must be a positive number')
+        }
+
+        if (!((config.rateLimitPerMinute ?? 0) >= 0)) {
+            throw new InvalidConfigurationError('rateLimitPerMinute must be a positive number or 0')
+        }
+        if (!((config.rateLimitMaxRetries ?? 0) >= 0)) {
+            throw new InvalidConfigurationError('rateLimitMaxRetries must be a positive number or 0')
+        }
+
+        if (!((config.requestTimeoutSeconds ?? 0) >= 0)) {
+            throw new InvalidConfigurationError('requestTimeoutSeconds must be a positive number or 0')
+        }
+        if (config.proxyUrl) {
+            try {
+                new URL(config.proxyUrl)
+            } catch (error) {
+                throw new InvalidConfigurationError(`Invalid proxyUrl: ${error}`)
+            }
+        }
+        if (config.clientCertificate && !config.clientKey) {
+            throw new InvalidConfigurationError('clientKey must be provided from config with a clientCertificate')
+        }
+
         this.httpClient = HTTPFactory.getHTTP(config);
     }
 
     /**
-     * Test connection by listing users from the Discourse instance.  
-     * This will make sure the apiKey has the correct access.
-     * @returns empty struct if response is 2XX
+     * Test connection by checking the whole configuration: the API key and its scopes, the API username,
+     * the groups to aggregate and the employee id user field.  The Discourse version is logged.
+     * @returns empty struct if every check succeeds
+     * @throws ConnectorError listing every failed check
      */
     async testConnection(): Promise<StdTestConnectionOutput> {
-        const staffList = await this.httpClient.get<User[]>('/admin/users/list/staff.json')
-        if (staffList.status !== 200) {
-            throw new ConnectorError("Unable to connect to Discourse")
+        const version = await this.getVersion().catch(() => undefined)
+        logger.info(`Discourse version: ${version ?? 'unknown'}`)
+
+        const failures: string[] = []
+        const check = async (test: () => Promise<string[]>) => {
+            try {
+                failures.push(...await test())
+            } catch (error) {
+                failures.push(toDiscourseError(error, 'Unexpected error').message)
+            }
+        }
+
+        await check(() => this.checkStaffList())
+        await check(() => this.checkApiKeyScopes())
+        await check(() => this.checkApiUsername())
+        await check(() => this.checkAggregationGroups())
+        await check(() => this.checkEmployeeIdField())
+
+        if (failures.length > 0) {
+            throw new ConnectorError(`The configuration of Discourse${version ? ` ${version}` : ''} at ${this.baseUrl} is invalid:\n`
+                + failures.map(failure => `- ${failure}`).join('\n'))
         }
         return {}
     }
 
+    /**
+     * Read the version of Discourse from the about page.
+     * @returns the version, ex. 3.2.0.beta1.
+     */
+    async getVersion(): Promise<string | undefined> {
+        const response = await this.httpClient.get<AboutResponse>('/about.json').catch((error: unknown) => {
+            throw toDiscourseError(error, 'Failed to retrieve the about page')
+        })
+
+        return response.data.about?.version
+    }
+
+    private async checkStaffList(): Promise<string[]> {
+        await this.httpClient.get<User[]>('/admin/users/list/staff.json').catch((error: unknown) => {
+            throw toDiscourseError(error, `Unable to list the staff users of Discourse at ${this.baseUrl}`)
+        })
+        return []
+    }
+
+    /**
+     * Check the scopes of the API key with read-only requests.  Only global API keys can list the API keys, so
+     * a global key has every scope.  For a scoped key, an endpoint of each read scope is called and the ones
+     * Discourse refuses are missing; the write scopes can't be checked without writing and are logged as unverified.
+     * users:list is checked by listing the staff users.
+     * @returns the missing scopes, if any.
+     */
+    private async checkApiKeyScopes(): Promise<string[]> {
+        if (await this.isAllowed(() => this.httpClient.get('/admin/api/keys.json'))) {
+            return []
+        }
+
+        const apiUsername = encodeURIComponent(this.apiUsername ?? '')
+        const probes: { [scope: string]: () => Promise<unknown> } = {
+            'users:show': () => this.httpClient.get(`/u/${apiUsername}.json`),
+            'users:check_emails': () => this.httpClient.get(`/u/${apiUsername}/emails.json`),
+            'badges:list_user_badges': () => this.httpClient.get(`/user-badges/${apiUsername}.json`),
+            'categories:list': () => this.httpClient.get('/categories.json'),
+            'categories:show': () => this.httpClient.get(`/c/${SCOPE_CHECK_CATEGORY_ID}/show.json`)
+        }
+        const scopes = this.ssoSecret != null ? [...REQUIRED_API_SCOPES, 'users:sync_sso'] : REQUIRED_API_SCOPES
+
+        const checkedScopes = scopes.filter(scope => probes[scope] != null)
+        const missingScopes: string[] = []
+        for (const scope of checkedScopes) {
+            if (!await this.isAllowed(probes[scope])) {
+                missingScopes.push(scope)
+            }
+        }
+        if (missingScopes.length == checkedScopes.length) {
+            return ['The API key is refused for every scope the connector needs, check that it is valid and that its user level allows the API username']
+        }
+
+        const unverifiedScopes = scopes.filter(scope => probes[scope] == null && scope != 'users:list')
+        logger.warn(`The API key is not global, check that it has the ${unverifiedScopes.join(', ')} scopes, they can't be verified without changes`)
+        return missingScopes.length > 0 ? [`The API key misses the ${missingScopes.join(', ')} scopes`] : []
+    }
+
+    /**
+     * Calls an endpoint to check whether the API key may use it.  Discourse refuses the endpoints the API key
+     * has no scope for, while the other client errors come from the object missing.
+     */
+    private async isAllowed(request: () => Promise<unknown>): Promise<boolean> {
+        try {
+            await request()
+        } catch (error) {
+            const discourseError = toDiscourseError(error, 'Failed to check the scopes of the API key')
+            if (discourseError instanceof AuthorizationError) {
+                return false
+            } else if (!(discourseError instanceof DiscourseError) || discourseError instanceof ServerError
+                || discourseError instanceof RateLimitedError) {
+                throw discourseError
+            }
+        }
+        return true
+    }
+
+    private async checkApiUsername(): Promise<string[]> {
+        const response = await this.httpClient.get<UserUsernameResponse>(`/u/${encodeURIComponent(this.apiUsername ?? '')}.json`)
+            .catch((error: unknown) => {
+                throw toDiscourseError(error, `Failed to retrieve the API username ${this.apiUsername}`)
+            })
+
+        return response.data.user?.admin ? [] : [`The API username ${this.apiUsername} is not an admin`]
+    }
+
+    private async checkAggregationGroups(): Promise<string[]> {
+        if (this.aggregationScope != 'groups') {
+            return []
+        }
+
+        const failures: string[] = []
+        for (const name of this.aggregationGroups) {
+            try {
+                await this.getGroup(name)
+            } catch (error) {
+                failures.push(error instanceof NotFoundError ? `The group ${name} does not exist` : toDiscourseError(error, `Failed to retrieve group ${name}`).message)
+            }
+        }
+        return failures
+    }
+
+    private async checkEmployeeIdField(): Promise<string[]> {
+        const fields = await this.getUserFields()
+        return fields.some(field => String(field.id) == String(this.employeeIdFieldId))
+            ? []
+            : [`The employee id user field ${this.employeeIdFieldId} does not exist`]
+    }
+
     /**
      * Create a user.
      * @param user the user to be created.
      * @returns the user.
      */
     async createUser(user: User): Promise<User> {
-        await this.httpClient.post<void>('/users.json', {
+        let username = user.username
+        if (this.ssoSecret != null) {
+            if (!user.external_id) {
+                throw new ConnectorError(`'externalId' is required to create user ${user.username} through DiscourseConnect`)
+            }
+            // Discourse may adjust the username, so use the one of the synced user.
+            username = (await this.syncSso(user)).username
+        } else {
+            // Retries and partial failures leave the user behind, so adopt it when the create policy allows.
+            // The user is looked up first, since a normalized username or a new email doesn't conflict with it.
+            let existingUser = this.createPolicy == 'adopt' ? await this.findAdoptableUser(user) : undefined
+            if (existingUser == null) {
+                if (this.usernamePatterns != null) {
+                    user = { ...user, username: await this.resolveUsername(user) }
+                    username = user.username
+                }
+                try {
+                    await this.postUser(user)
+                } catch (error) {
+                    existingUser = error instanceof ConflictError ? await this.findAdoptableUser(user) : undefined
+                    if (existingUser == null) {
+                        throw error
+                    }
+                }
+            }
+            if (existingUser != null) {
+                username = existingUser.username
+            }
+        }
+
+        const createdUser = await this.getUserByUsername(username)
+
+        const updateData = new UserUpdate()
+        updateData.groups = createdUser.groups // Populate udpateData with default groups assigned to new users
+        // If the provisioning plan includes groups, add them to the update data.
+        if (user.groups != null && updateData.groups != null) {
+            updateData.groups = updateData.groups.concat(user.groups)
+        }
+        if (user.title != null) {
+            updateData.title = user.title
+        }
+        // Keep the default trust level unless the provisioning plan includes one.
+        updateData.trust_level = user.trust_level ?? createdUser.trust_level
+
+        // DiscourseConnect and adopted users didn't get the user fields yet, including the employee id used for correlation.
+        return await this.updateUser(createdUser, {
+            ...updateData,
+            user_fields: user.user_fields,
+            admin: user.admin,
+            moderator: user.moderator,
+            owned_groups: user.owned_groups,
+            badges: user.badges
+        }, createdUser.username)
+    }
+
+    /**
+     * Resolve the username of a new user: the first available candidate of the username patterns,
+     * normalized to the username rules of the site.
+     * @param user the user to create.
+     * @returns the available username.
+     */
+    async resolveUsername(user: User): Promise<string> {
+        if (this.usernameSettings == null) {
+            this.usernameSettings = await this.getUsernameSettings()
+        }
+
+        let attempts = 0
+        for (const username of new UsernameGenerator(this.usernameSettings, this.usernamePatterns ?? ['{username}']).candidates(user)) {
+            if (await this.isUsernameAvailable(username)) {
+                return username
+            }
+            if (++attempts >= MAX_USERNAME_ATTEMPTS) {
+                break
+            }
+        }
+        throw new ConflictError(`Failed to create user ${user.username}: no available username found after ${attempts} attempts`)
+    }
+
+    /**
+     * Read the username rules from the site settings.
+     * @returns the username settings, with the Discourse defaults for the missing ones.
+     */
+    private async getUsernameSettings(): Promise<UsernameSettings> {
+        const response = await this.httpClient.get<SiteSettingsResponse>('/admin/site_settings.json').catch((error: unknown) => {
+            throw toDiscourseError(error, 'Failed to retrieve the site settings')
+        })
+
+        const settings = new UsernameSettings()
+        for (const siteSetting of response.data.site_settings ?? []) {
+            if (siteSetting.setting == 'min_username_length') {
+                settings.minLength = Number(siteSetting.value)
+            } else if (siteSetting.setting == 'max_username_length') {
+                settings.maxLength = Number(siteSetting.value)
+            } else if (siteSetting.setting == 'unicode_usernames') {
+                settings.unicode = siteSetting.value === true || siteSetting.value === 'true'
+            }
+        }
+        return settings
+    }
+
+    private async isUsernameAvailable(username: string): Promise<boolean> {
+        const response = await this.httpClient.get<CheckUsernameResponse>('/u/check_username.json', {
+            params: {
+                username: username
+            }
+        }).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to check username ${username}`)
+        })
+
+        return response.data.available === true
+    }
+
+    private async postUser(user: User): Promise<void> {
+        const response = await this.httpClient.post<UserCreateResponse>('/users.json', {
             name: user.name, // name doesn't work in discourse, so just use username
             email: user.email,
             password: user.password != null ? user.password : this.generateRandomPassword(),
@@ -87,22 +502,165 @@ export class DiscourseClient {
             user_fields: user.user_fields,
             approved: true
         }).catch((error: unknown) => {
-            throw new ConnectorError(`Failed to create user ${user.username}: ${error}`)
+            throw toDiscourseError(error, `Failed to create user ${user.username}`)
         })
+        if (response.data?.success === false) {
+            throw fromFieldErrors(`Failed to create user ${user.username}`, response.data.errors, response.data.message)
+        }
+    }
 
-        const createdUser = await this.getUserByUsername(user.username)
+    /**
+     * Find the existing user a new user stands for, when the create policy allows to use it instead.
+     * The adopt policy adopts a user with the same email or the same employee id.
+     * The claimStaged policy claims a staged user with the same email.
+     * @param user the user to create.
+     * @returns the existing user, or undefined when it can't be used.
+     */
+    private async findAdoptableUser(user: User): Promise<User | undefined> {
+        if (this.createPolicy == 'fail') {
+            return undefined
+        }
 
-        const updateData = new UserUpdate()
-        updateData.groups = createdUser.groups // Populate udpateData with default groups assigned to new users
-        // If the provisioning plan includes groups, add them to the update data.
-        if (user.groups != null && updateData.groups != null) {
-            updateData.groups = updateData.groups.concat(user.groups)
+        const userWithEmail = user.email ? await this.findUserByEmail(user.email) : undefined
+        if (this.createPolicy == 'claimStaged') {
+            return userWithEmail?.staged ? await this.claimStagedUser(userWithEmail, user) : undefined
         }
-        if (user.title != null) {
-            updateData.title = user.title
+
+        if (userWithEmail != null && !userWithEmail.staged) {
+            return userWithEmail
+        }
+        const employeeId = user.user_fields?.[this.employeeIdFieldId]
+        if (employeeId != null && employeeId !== '') {
+            return await this.findUserByEmployeeId(String(employeeId))
+        }
+        return undefined
+    }
+
+    /**
+     * Find a user by its employee id.  The users directory only finds users by the value of a user field
+     * when the field is searchable, so the candidates are read to compare their employee id.  Discourse
+     * rebuilds the directory on a schedule, so the users created since, ex. by a failed create, are looked
+     * up among the newest users of the admin user list instead.
+     * @param employeeId the employee id of the user.
+     * @returns the user, or undefined when no user has this employee id.
+     */
+    private async findUserByEmployeeId(employeeId: string): Promise<User | undefined> {
+        const response = await this.httpClient.get<DirectoryItemsResponse>('/directory_items.json', {
+            params: {
+                period: 'all',
+                name: employeeId,
+                user_field_ids: this.employeeIdFieldId
+            }
+        }).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to search users with employee id ${employeeId}`)
+        })
+
+        const items: DirectoryItem[] = response.data.directory_items ?? []
+        const directoryIds = items.map(item => item.user?.id ?? item.id)
+        return await this.findUserWithEmployeeId(directoryIds, employeeId)
+            ?? await this.findUserWithEmployeeId(await this.getRecentUserIds(), employeeId)
+    }
+
+    private async findUserWithEmployeeId(userIds: number[], employeeId: string): Promise<User | undefined> {
+        for (const userId of userIds) {
+            const candidate = await this.getAdminUser(String(userId))
+            if (!candidate.staged && String(candidate.user_fields?.[this.employeeIdFieldId] ?? '') == employeeId) {
+                return candidate
+            }
+        }
+        return undefined
+    }
+
+    /**
+     * Gets the ids of the users created in the last hours, from the newest page of the admin user list.
+     */
+    private async getRecentUserIds(): Promise<number[]> {
+        const response = await this.httpClient.get<User[]>('/admin/users/list/all.json', {
+            params: {
+                order: 'created',
+                page: 1
+            }
+        }).catch((error: unknown) => {
+            throw toDiscourseError(error, 'Failed to retrieve the newest users')
+        })
+
+        const since = Date.now() - RECENT_USERS_HOURS * 60 * 60 * 1000
+        const users: User[] = response.data
+        return users
+            .filter(user => user.created_at != null && Date.parse(user.created_at) > since)
+            .map(user => user.id)
+    }
+
+    /**
+     * Claim a staged user.  Discourse unstages a staged user when a user is created with its email,
+     * so the user is created again with the username of the staged user and activated.
+     * @param stagedUser the staged user with the email of the user.
+     * @param user the user to create.
+     * @returns the claimed user.
+     */
+    private async claimStagedUser(stagedUser: User, user: User): Promise<User> {
+        await this.postUser({ ...user, username: stagedUser.username })
+        await this.activateUser(stagedUser.id.toString())
+
+        const claimedUser = await this.getAdminUser(stagedUser.id.toString())
+        if (claimedUser.staged) {
+            throw new ConflictError(`Failed to create user ${user.username}: the staged user ${stagedUser.username} with the same email could not be unstaged`)
         }
+        return claimedUser
+    }
 
-        return await this.updateUser(createdUser, updateData, user.username)
+    /**
+     * Find a user by its email, including staged users.
+     * @param email the email of the user.
+     * @returns the partial user, or undefined when no user has this email.
+     */
+    private async findUserByEmail(email: string): Promise<User | undefined> {
+        // Staged users are only returned by their own list.
+        for (const list of ['all', 'staged']) {
+            const users = await this.getAdminUserList(list, 1, email)
+            const user = users.find(candidate => candidate.email?.toLowerCase() == email.toLowerCase())
+            if (user != null) {
+                return user
+            }
+        }
+        return undefined
+    }
+
+    /**
+     * Create or update a user through DiscourseConnect by syncing a signed payload.
+     * @param user the user, including its external id.
+     * @returns the synced user.
+     */
+    private async syncSso(user: User): Promise<User> {
+        const payload = new URLSearchParams()
+        payload.set('external_id', user.external_id ?? '')
+        payload.set('email', user.email ?? '')
+        if (user.username) {
+            payload.set('username', user.username)
+        }
+        if (user.name) {
+            payload.set('name', user.name)
+        }
+        payload.set('require_activation', 'false')
+
+        const sso = Buffer.from(payload.toString()).toString('base64')
+        const response = await this.httpClient.post<User>('/admin/users/sync_sso', {
+            sso: sso,
+            sig: this.signSsoPayload(sso)
+        }).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to sync user ${user.username} through DiscourseConnect`)
+        })
+
+        return response.data
+    }
+
+    /**
+     * Signs a DiscourseConnect payload with the configured secret.
+     * @param sso the base64 encoded payload.
+     * @returns the hex encoded HMAC-SHA256 signature.
+     */
+    private signSsoPayload(sso: string): string {
+        return crypto.createHmac('sha256', this.ssoSecret ?? '').update(sso).digest('hex')
     }
 
     /**
@@ -114,28 +672,144 @@ export class DiscourseClient {
     }
 
     /**
-     * Delete a user by identity.
-     * @param identity the id of the user.
+     * Delete a user with the configured strategy.  When Discourse doesn't allow the strategy for the user,
+     * for example deleting a user with posts, the configured fallback strategy is used instead.
+     * @param user the user to delete.
      * @returns empty struct if response is 2XX
      */
-    async deleteUser(identity: string): Promise<StdAccountDeleteOutput> {
-        await this.httpClient.delete(`/admin/users/${identity}.json`)
+    async deleteUser(user: User): Promise<StdAccountDeleteOutput> {
+        if (this.canDeleteWith(this.deleteStrategy, user)) {
+            try {
+                await this.deleteUserWith(this.deleteStrategy, user)
+                return {}
+            } catch (error) {
+                // Discourse refuses the strategy for this user, for example when the post count changed meanwhile.
+                if (!(error instanceof DeleteRefusedError)) {
+                    throw error
+                }
+            }
+        }
+
+        if (this.deleteFallback == 'fail' || !this.canDeleteWith(this.deleteFallback, user)) {
+            throw new ConnectorError(`Failed to delete user ${user.username}: the ${this.deleteStrategy} strategy is not allowed for this user`)
+        }
+        await this.deleteUserWith(this.deleteFallback, user)
         return {}
     }
 
     /**
-    * Gets users from the discourse system
-    * @returns {Promise<User[]>} the users.
+     * Tells whether Discourse allows a delete strategy for a user.
+     */
+    private canDeleteWith(strategy: DeleteStrategy, user: User): boolean {
+        switch (strategy) {
+            case 'delete':
+                return user.can_be_deleted !== false && !(user.post_count != null && user.post_count > 0)
+            case 'deleteWithPosts':
+                return user.can_delete_all_posts !== false
+            case 'anonymize':
+                return user.can_be_anonymized !== false
+            default:
+                return true
+        }
+    }
+
+    private async deleteUserWith(strategy: DeleteStrategy, user: User): Promise<void> {
+        const refused = (error: unknown) => {
+            const discourseError = toDiscourseError(error, `Failed to ${strategy} user ${user.username}`)
+            if (discourseError instanceof AuthorizationError || discourseError instanceof ValidationError) {
+                throw new DeleteRefusedError(discourseError.message)
+            }
+            throw discourseError
+        }
+
+        switch (strategy) {
+            case 'anonymize':
+                await this.httpClient.put<void>(`/admin/users/${user.id}/anonymize.json`, {}).catch(refused)
+                break
+            case 'deactivate':
+                await this.httpClient.put<void>(`/admin/users/${user.id}/deactivate.json`, {}).catch(refused)
+                break
+            default:
+                await this.httpClient.delete<void>(`/admin/users/${user.id}.json`, {
+                    params: {
+                        delete_posts: strategy == 'deleteWithPosts',
+                        block_email: this.deleteBlockEmail,
+                        block_ip: this.deleteBlockIp,
+                        block_urls: this.deleteBlockUrls
+                    }
+                }).catch(refused)
+        }
+    }
+
+    /**
+    * Lists the users within the configured aggregation scope without hydrating them.
+    * Users are deduplicated across groups and the configured exclusions are applied.
+    * The users only carry a subset of the user fields, including the activity timestamps.
+    * @returns {AsyncGenerator<User>} the partial users.
     */
-    async getUsers(offset: number, limit: number): Promise<User[]> {
-        // First, get the members of the group.  This will return a subset of the fields we need to complete a user.
-        const groupMembers = await this.getGroupMembers(this.primaryGroup, offset, limit)
+    async *listScopeUsers(): AsyncGenerator<User> {
+        const seen = new Set<number>()
+        const pages = this.aggregationScope == 'groups' ? this.listGroupMemberPages() : this.listAdminUserPages()
+        for await (const users of pages) {
+            for (const user of users) {
+                if (!seen.has(user.id) && !this.isExcluded(user)) {
+                    seen.add(user.id)
+                    yield user
+                }
+            }
+        }
+    }
 
-        // Get the full user representation.
-        const users = await Promise.all(groupMembers.map(member => this.getUser(member.id.toString())))
+    private async *listGroupMemberPages(): AsyncGenerator<User[]> {
+        for (const group of this.aggregationGroups) {
+            let offset = 0
+            let members: User[] = []
+            do {
+                members = await this.getGroupMembers(group, offset, this.pageSize)
+                yield members
+                offset += this.pageSize
+            } while (members.length == this.pageSize)
+        }
+    }
 
+    private async *listAdminUserPages(): AsyncGenerator<User[]> {
+        // Staged users are only returned by their own list.
+        const lists = this.aggregationScope == 'all' ? ['all', 'staged'] : ['active']
+        for (const list of lists) {
+            let page = 1
+            let users: User[] = []
+            do {
+                users = await this.getAdminUserList(list, page)
+                yield users
+                page++
+            } while (users.length > 0)
+        }
+    }
 
-        return users
+    private isExcluded(user: User): boolean {
+        // Discourse bots, including the system user, have negative ids.
+        return (this.excludeBots && user.id <= 0)
+            || (this.excludeSystemUser && user.username == 'system')
+            || (this.excludeUsernamePattern != null && user.username != null && this.excludeUsernamePattern.test(user.username))
+    }
+
+    /**
+    * Gets a page of an admin user list, e.g. active, staff or staged.  Discourse returns 100 users per page,
+    * including their email addresses.  The list only includes the user with the given email, if any.
+    * @returns {Promise<User[]>} the partial users.
+    */
+    private async getAdminUserList(list: string, page: number, email?: string): Promise<User[]> {
+        const response = await this.httpClient.get<User[]>(`/admin/users/list/${list}.json`, {
+            params: {
+                show_emails: true,
+                page: page,
+                email: email
+            }
+        }).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to retrieve the ${list} user list`)
+        })
+
+        return response.data
     }
 
     private async getGroupMembers(groupname: string, offset: number, limit: number): Promise<User[]> {
@@ -147,7 +821,7 @@ export class DiscourseClient {
                 limit: limit
             }
         }).catch((error: unknown) => {
-            throw new ConnectorError(`Failed to retrieve members for group ${groupname}: ${error}`)
+            throw toDiscourseError(error, `Failed to retrieve members for group ${groupname}`)
         })
 
         members = members.concat(response.data.members);
@@ -156,9 +830,63 @@ export class DiscourseClient {
         return members
     }
 
+    /**
+    * Retrieve the email addresses of all active users in bulk from the admin user list,
+    * which returns 100 users per page.
+    * @returns {Promise<Map<number, string>>} the email addresses keyed by user id.
+    */
+    async getUserEmails(): Promise<Map<number, string>> {
+        const emails = new Map<number, string>()
+        let page = 1
+        let users: User[] = []
+        do {
+            users = await this.getAdminUserList('active', page)
+            for (const user of users) {
+                if (user.email) {
+                    emails.set(user.id, user.email)
+                }
+            }
+            page++
+        } while (users.length > 0)
+
+        return emails
+    }
+
+    /**
+    * Retrieve the ids of the users targeted by a staff action since a timestamp, ex. a suspension, a silence, a new
+    * group, badge, role or trust level.  These changes don't update the timestamps of the user.
+    * @param {string} since ISO timestamp of the previous aggregation.
+    * @returns {Promise<Set<number>>} the ids of the users.
+    */
+    async getStaffActionTargetIds(since: string): Promise<Set<number>> {
+        const sinceTime = Date.parse(since)
+        const ids = new Set<number>()
+        // The logs are listed newest first.
+        for (let page = 0; ; page++) {
+            const response = await this.httpClient.get<StaffActionLogsResponse>('/admin/logs/staff_action_logs.json', {
+                params: { page: page, limit: STAFF_ACTION_LOGS_PAGE_SIZE }
+            }).catch((error: unknown) => {
+                throw toDiscourseError(error, 'Failed to retrieve the staff action logs')
+            })
+
+            const logs = response.data.staff_action_logs ?? []
+            for (const log of logs) {
+                if (log.created_at != null && Date.parse(log.created_at) <= sinceTime) {
+                    return ids
+                }
+                if (log.target_user?.id != null) {
+                    ids.add(log.target_user.id)
+                }
+            }
+            if (logs.length < STAFF_ACTION_LOGS_PAGE_SIZE) {
+                return ids
+            }
+        }
+    }
+
     private async getUserEmailAddress(username?: string): Promise<string> {
         const response = await this.httpClient.get<UserEmail>(`/u/${username}/emails.json`).catch((error: unknown) => {
-            throw new ConnectorError(`Failed to retrieve email for user ${username}: ${error}`)
+            throw toDiscourseError(error, `Failed to retrieve email for user ${username}`)
         })
 
         return response.data.email
@@ -167,96 +895,242 @@ export class DiscourseClient {
     private async addUserToGroup(groupId?: number, username?: string): Promise<boolean> {
         await this.httpClient.put<void>(`/groups/${groupId}/members.json`, {
             usernames: username
-        }).catch((error: AxiosError) => {
-            if (error.response && error.response.status !== 422) {
-                throw new ConnectorError(error.message)
+        }).catch(this.ignoreConflict(`Failed to add user ${username} to group ${groupId}`))
+
+        return true
+    }
+
+    /**
+     * Disable a user with the configured strategy: suspend, deactivate or silence.
+     * @param user the user to disable.
+     * @returns true once the user is disabled.
+     */
+    async disableUser(user: User): Promise<boolean> {
+        const userId = user.id.toString()
+        if (this.disableStrategy == 'deactivate') {
+            return await this.deactivateUser(userId)
+        }
+
+        const until = this.until(this.disableDurationDays)
+        const reason = this.renderDisableTemplate(this.disableReason, user, until)
+        const message = this.disableMessage != null ? this.renderDisableTemplate(this.disableMessage, user, until) : undefined
+        if (this.disableStrategy == 'silence') {
+            return await this.silenceUser(userId, until, reason, message)
+        }
+        return await this.suspendUser(userId, until, reason, message)
+    }
+
+    /**
+     * Silence a user, for example for a policy violation.  The reason and message support the same placeholders
+     * as the disable reason.
+     * @param user the user to silence.
+     * @param reason the reason of the silence.
+     * @param durationDays how long the user stays silenced, indefinitely when 0.
+     * @param message the message emailed to the user, if any.
+     * @returns true once the user is silenced.
+     */
+    async silenceUserFor(user: User, reason: string, durationDays = 0, message?: string): Promise<boolean> {
+        if (!(durationDays >= 0)) {
+            throw new ConnectorError('durationDays must be a positive number or 0')
+        }
+        const until = this.until(durationDays)
+        return await this.silenceUser(user.id.toString(), until, this.renderDisableTemplate(reason, user, until),
+            message != null ? this.renderDisableTemplate(message, user, until) : undefined)
+    }
+
+    /**
+     * The end of a suspension or silence lasting a number of days.  A duration of 0 lasts indefinitely.
+     */
+    private until(durationDays: number): string {
+        return durationDays > 0
+            ? new Date(Date.now() + durationDays * 24 * 60 * 60 * 1000).toISOString()
+            : '9999-01-01'
+    }
+
+    /**
+     * Enable a user by reversing the disable strategy: lifts its suspension, its silence or its deactivation.
+     * The restrictions of the other strategies, ex. a silence set by a moderator, are left as they are.
+     * @param user the user to enable.
+     * @returns true once the user is enabled.
+     */
+    async enableUser(user: User): Promise<boolean> {
+        const userId = user.id.toString()
+        if (this.disableStrategy == 'deactivate') {
+            if (user.active === false) {
+                await this.activateUser(userId)
             }
-        })
+        } else if (this.disableStrategy == 'silence') {
+            if (user.silenced_till) {
+                await this.unsilenceUser(userId)
+            }
+        } else if (user.suspended_till) {
+            await this.unsuspendUser(userId)
+        }
+        return true
+    }
 
+    /**
+     * Unlock a user by clearing its lock conditions: lifts its silence and temporary suspension, activates it
+     * when it isn't activated and approves it when it's waiting for approval.  The restrictions the disable
+     * strategy applies are left for enable to lift: indefinite suspensions, silences with the silence strategy,
+     * every suspension when the disable strategy suspends for a duration, and deactivations.
+     * @param user the user to unlock.
+     * @returns true once the user is unlocked.
+     */
+    async unlockUser(user: User): Promise<boolean> {
+        const userId = user.id.toString()
+        if (user.silenced_till && this.disableStrategy != 'silence') {
+            await this.unsilenceUser(userId)
+        }
+        const indefinitely = new Date()
+        indefinitely.setFullYear(indefinitely.getFullYear() + INDEFINITE_SUSPENSION_YEARS)
+        const timedDisable = this.disableStrategy == 'suspend' && this.disableDurationDays > 0
+        if (user.suspended_till && new Date(user.suspended_till) < indefinitely && !timedDisable) {
+            await this.unsuspendUser(userId)
+        }
+        if (user.active === false && this.disableStrategy != 'deactivate') {
+            await this.activateUser(userId)
+        }
+        if (user.approved === false) {
+            await this.approveUser(userId)
+        }
         return true
     }
 
-    public async suspendUser(userId?: string): Promise<boolean> {
+    /**
+     * Replaces the {username}, {name}, {email}, {date} and {until} placeholders of a disable reason or message.
+     */
+    private renderDisableTemplate(template: string, user: User, until: string): string {
+        const values: { [placeholder: string]: string } = {
+            username: user.username ?? '',
+            name: user.name ?? '',
+            email: user.email ?? '',
+            date: new Date().toISOString().slice(0, 10),
+            until: until.slice(0, 10)
+        }
+        return template.replace(/\{(\w+)\}/g, (placeholder, key) => values[key] ?? placeholder)
+    }
+
+    public async suspendUser(userId?: string, until = '9999-01-01', reason = 'User is disabled in SailPoint IdentityNow', message?: string): Promise<boolean> {
         await this.httpClient.put<void>(`/admin/users/${userId}/suspend.json`, {
-            suspend_until: '9999-01-01',
-            reason: 'User is disabled in SailPoint IdentityNow'
-        }).catch((error: AxiosError) => {
-            if (error.response && error.response.status !== 422) {
-                throw new ConnectorError(error.message)
-            }
-        })
+            suspend_until: until,
+            reason: reason,
+            message: message
+        }).catch(this.ignoreConflict(`Failed to suspend user ${userId}`))
         return true
     }
 
     public async revokeAdmin(userId?: string): Promise<boolean> {
         await this.httpClient.put<void>(`/admin/users/${userId}/revoke_admin.json`, {
-        }).catch((error: AxiosError) => {
-            if (error.response && error.response.status !== 422) {
-                throw new ConnectorError(error.message)
-            }
-        })
+        }).catch(this.ignoreConflict(`Failed to revoke admin from user ${userId}`))
         return true
     }
 
     public async grantAdmin(userId?: string): Promise<boolean> {
         await this.httpClient.put<void>(`/admin/users/${userId}/grant_admin.json`, {
-        }).catch((error: AxiosError) => {
-            if (error.response && error.response.status !== 422) {
-                throw new ConnectorError(error.message)
-            }
-        })
+        }).catch(this.ignoreConflict(`Failed to grant admin to user ${userId}`))
         return true
     }
 
     public async revokeModerator(userId?: string): Promise<boolean> {
         await this.httpClient.put<void>(`/admin/users/${userId}/revoke_moderation.json`, {
-        }).catch((error: AxiosError) => {
-            if (error.response && error.response.status !== 422) {
-                throw new ConnectorError(error.message)
-            }
-        })
+        }).catch(this.ignoreConflict(`Failed to revoke moderator from user ${userId}`))
         return true
     }
 
     public async grantModerator(userId?: string): Promise<boolean> {
         await this.httpClient.put<void>(`/admin/users/${userId}/grant_moderation.json`, {
-        }).catch((error: AxiosError) => {
-            if (error.response && error.response.status !== 422) {
-                throw new ConnectorError(error.message)
-            }
+        }).catch(this.ignoreConflict(`Failed to grant moderator to user ${userId}`))
+        return true
+    }
+
+    public async changeTrustLevel(userId: number, level: number): Promise<boolean> {
+        await this.httpClient.put<void>(`/admin/users/${userId}/trust_level.json`, {
+            level: level
+        }).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to change trust level of user ${userId} to ${level}`)
+        })
+        return true
+    }
+
+    /**
+     * Lock or unlock the trust level of a user.  A locked trust level is not changed by Discourse's automatic promotion.
+     * @param userId the id of the user.
+     * @param locked true to lock the current trust level.
+     */
+    public async setTrustLevelLock(userId: number, locked: boolean): Promise<boolean> {
+        await this.httpClient.put<void>(`/admin/users/${userId}/trust_level_lock.json`, {
+            locked: locked
+        }).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to ${locked ? 'lock' : 'unlock'} trust level of user ${userId}`)
         })
         return true
     }
 
+    public async silenceUser(userId: string, until: string, reason: string, message?: string): Promise<boolean> {
+        await this.httpClient.put<void>(`/admin/users/${userId}/silence.json`, {
+            silenced_till: until,
+            reason: reason,
+            message: message
+        }).catch(this.ignoreConflict(`Failed to silence user ${userId}`))
+        return true
+    }
+
+    public async unsilenceUser(userId: string): Promise<boolean> {
+        await this.httpClient.put<void>(`/admin/users/${userId}/unsilence.json`, {
+        }).catch(this.ignoreConflict(`Failed to unsilence user ${userId}`))
+        return true
+    }
+
+    public async deactivateUser(userId: string): Promise<boolean> {
+        await this.httpClient.put<void>(`/admin/users/${userId}/deactivate.json`, {
+        }).catch(this.ignoreConflict(`Failed to deactivate user ${userId}`))
+        return true
+    }
+
+    public async activateUser(userId: string): Promise<boolean> {
+        await this.httpClient.put<void>(`/admin/users/${userId}/activate.json`, {
+        }).catch(this.ignoreConflict(`Failed to activate user ${userId}`))
+        return true
+    }
+
     public async unsuspendUser(userId?: string): Promise<boolean> {
         await this.httpClient.put<void>(`/admin/users/${userId}/unsuspend.json`, {
-        }).catch((error: AxiosError) => {
-            if (error.response && error.response.status !== 422) {
-                throw new ConnectorError(error.message)
-            }
-        })
+        }).catch(this.ignoreConflict(`Failed to unsuspend user ${userId}`))
+        return true
+    }
+
+    public async approveUser(userId: string): Promise<boolean> {
+        await this.httpClient.put<void>(`/admin/users/${userId}/approve.json`, {
+        }).catch(this.ignoreConflict(`Failed to approve user ${userId}`))
         return true
     }
 
     public async forgotPassword(username?: string): Promise<boolean> {
         await this.httpClient.put<void>(`/session/forgot_password.json`, {
             login: username
-        }).catch((error: AxiosError) => {
-            if (error.response && error.response.status !== 422) {
-                throw new ConnectorError(error.message)
-            }
-        })
+        }).catch(this.ignoreConflict(`Failed to send a password reset email to user ${username}`))
         return true
     }
 
 
+    /**
+     * Maps a failed request to a typed error, ignoring conflicts: the user is already in the requested state,
+     * ex. already a member of the group.
+     * @param message what failed.
+     */
+    private ignoreConflict(message: string): (error: unknown) => void {
+        return (error: unknown) => {
+            const discourseError = toDiscourseError(error, message)
+            if (!(discourseError instanceof ConflictError)) {
+                throw discourseError
+            }
+        }
+    }
+
     private async removeUserFromGroup(userId: string, groupId?: number): Promise<boolean> {
         await this.httpClient.delete<void>(`/admin/users/${userId}/groups/${groupId}`)
-            .catch((error: AxiosError) => {
-                if (error.response && error.response.status !== 422) {
-                    throw new ConnectorError(error.message)
-                }
-            })
+            .catch(this.ignoreConflict(`Failed to remove user ${userId} from group ${groupId}`))
 
         return true
     }
@@ -278,74 +1152,100 @@ export class DiscourseClient {
     async updateUser(origUser: User, newUser: User, username?: string): Promise<User> {
         const userUpdate = UserUpdate.fromUser(newUser)
 
+        // Diff the groups first, so that a rejected change doesn't leave the user partially updated.
+        const origGroups = origUser.groups ?? []
+        const newGroups = (userUpdate.groups ?? []).filter((group, index, groups) => groups.findIndex(x => x.id == group.id) == index)
+        const groupsToRemove = userUpdate.groups != null ? origGroups.filter(group => !newGroups.some(x => x.id == group.id)) : []
+        const groupsToAdd = newGroups.filter(group => !origGroups.some(x => x.id == group.id))
+        const automaticGroups = groupsToRemove.concat(groupsToAdd)
+            .filter(group => group.automatic || AUTOMATIC_GROUP_IDS.includes(group.id) || origGroups.some(x => x.id == group.id && x.automatic))
+        if (automaticGroups.length > 0) {
+            throw new ConnectorError(`Cannot add or remove automatic groups, they are managed by Discourse: ${automaticGroups.map(group => group.name).join(', ')}. Use the role entitlements to grant or revoke admin and moderator.`)
+        }
+
         const response = await this.httpClient.put<UserUpdateResponse>(`/u/${username}.json`, userUpdate)
         if (response.data.user == null) {
             throw new ConnectorError('Failed to update user.')
         }
 
-        if(origUser.email != newUser.email && newUser.email && origUser.username) {
+        if (this.ssoSecret != null && origUser.external_id) {
+            // Update the DiscourseConnect record as well, otherwise the next login overrides the changes.
+            if (origUser.email != newUser.email || origUser.name != newUser.name) {
+                await this.syncSso({ ...newUser, external_id: origUser.external_id, username: origUser.username })
+            }
+        } else if(origUser.email != newUser.email && newUser.email && origUser.username) {
             await this.updateUserEmail(origUser.username, newUser.email)
         }
 
-        // If requested "staff" group then remove, not valid
-        origUser.groups = origUser.groups?.filter(group => {return group.name != 'staff' ? true : false })
-        // Remove any groups that are not contained in the userUpdate object
-        const origUserGroupIds = origUser.groups?.map(group => { return group.id })
-        // Remove staff as it is not a valid group to add
-        userUpdate.groups = userUpdate.groups?.filter(group => {return group.name != 'staff' ? true : false })
-        
-
-        // check for moderator group id
-        const moderatorGroup = userUpdate.groups?.filter(group => {return group.name == 'moderators' ? true : false })
-        const moderatorGroup2 = origUser.groups?.filter(group => {return group.name == 'moderators' ? true : false })
-        let moderatorId = -1
-        if (moderatorGroup && moderatorGroup.length > 0) {
-            moderatorId = moderatorGroup[0].id
-        }
-        if (moderatorGroup2 && moderatorGroup2.length > 0) {
-            moderatorId = moderatorGroup2[0].id
-        }
-
-        // check for admin group id
-        const adminGroup = userUpdate.groups?.filter(group => {return group.name == 'admins' ? true : false })
-        const adminGroup2 = origUser.groups?.filter(group => {return group.name == 'admins' ? true : false })
-        let adminId = -1
-        if (adminGroup && adminGroup.length > 0) {
-            adminId = adminGroup[0].id
-        }
-        if (adminGroup2 && adminGroup2.length > 0) {
-            adminId = adminGroup2[0].id
-        }
-
-        const userUpdateGroupIds = userUpdate.groups?.map(group => { return group.id })
-        if (origUserGroupIds && userUpdateGroupIds) {
-            const groupsToRemove = origUserGroupIds.filter(x => !userUpdateGroupIds.includes(x))
-            if (groupsToRemove != null && groupsToRemove.length > 0) {
-                for (const group of groupsToRemove) {
-                    if (group == moderatorId) {
-                        await this.revokeModerator(origUser.id.toString())
-                    } else if (group == adminId) {
-                        await this.revokeAdmin(origUser.id.toString())
-                    } else {
-                        await this.removeUserFromGroup(origUser.id.toString(), group)
-                    } 
-                }
+        for (const group of groupsToRemove) {
+            await this.removeUserFromGroup(origUser.id.toString(), group.id)
+        }
+        for (const group of groupsToAdd) {
+            await this.addUserToGroup(group.id, username)
+        }
+
+        // Grant or revoke the admin and moderator roles.
+        if (newUser.admin != null && newUser.admin != (origUser.admin === true)) {
+            if (newUser.admin) {
+                await this.grantAdmin(origUser.id.toString())
+            } else {
+                await this.revokeAdmin(origUser.id.toString())
+            }
+        }
+        if (newUser.moderator != null && newUser.moderator != (origUser.moderator === true)) {
+            if (newUser.moderator) {
+                await this.grantModerator(origUser.id.toString())
+            } else {
+                await this.revokeModerator(origUser.id.toString())
             }
+        }
 
-            // Add any groups that are not contained in the origUser object
-            const groupsToAdd = userUpdateGroupIds.filter(x => !origUserGroupIds.includes(x))
-            if (groupsToAdd != null && groupsToAdd.length > 0) {
-                for (const group of groupsToAdd) {
-                    if (group == moderatorId) {
-                        await this.grantModerator(origUser.id.toString())
-                    } else if (group == adminId) {
-                        await this.grantAdmin(origUser.id.toString())
-                    } else {
-                        await this.addUserToGroup(group, username)
-                    } 
+        // Grant or revoke the trust level.
+        if (newUser.trust_level != origUser.trust_level) {
+            if (newUser.trust_level == null) {
+                // Revoking hands the trust level back to Discourse's automatic promotion, which keeps the earned level.
+                await this.setTrustLevelLock(origUser.id, false)
+            } else {
+                // Discourse refuses to demote a user below the earned trust level unless the trust level is locked.
+                const demotion = origUser.trust_level != null && newUser.trust_level < origUser.trust_level
+                if (demotion) {
+                    await this.setTrustLevelLock(origUser.id, true)
+                }
+                await this.changeTrustLevel(origUser.id, newUser.trust_level)
+                if (this.lockTrustLevel || demotion) {
+                    // Lock the new trust level.
+                    await this.setTrustLevelLock(origUser.id, true)
                 }
             }
+        }
 
+        // Grant and revoke group ownership.
+        if (newUser.owned_groups != null) {
+            const origOwnedGroupIds = (origUser.owned_groups ?? []).map(group => group.id)
+            const newOwnedGroupIds = newUser.owned_groups.map(group => group.id)
+            for (const group of origOwnedGroupIds.filter(x => !newOwnedGroupIds.includes(x))) {
+                await this.removeGroupOwner(group, origUser.id)
+            }
+            for (const group of newOwnedGroupIds.filter(x => !origOwnedGroupIds.includes(x))) {
+                await this.addGroupOwners(group, [username ?? ''])
+            }
+        }
+
+        // Grant and revoke badges.
+        if (newUser.badges != null) {
+            const origBadgeIds = (origUser.badges ?? []).map(badge => badge.id)
+            const newBadgeIds = newUser.badges.map(badge => badge.id)
+            const badgesToRevoke = origBadgeIds.filter(x => !newBadgeIds.includes(x))
+            if (badgesToRevoke.length > 0) {
+                // A badge can be granted several times, every grant is revoked.
+                const grants = (await this.getUserBadgeGrants(username)).user_badges ?? []
+                for (const grant of grants.filter(grant => badgesToRevoke.includes(grant.badge_id))) {
+                    await this.revokeBadge(grant.id)
+                }
+            }
+            for (const badge of newBadgeIds.filter(x => !origBadgeIds.includes(x))) {
+                await this.grantBadge(badge, username)
+            }
         }
 
         return await this.getUser(origUser.id.toString())
@@ -354,17 +1254,93 @@ export class DiscourseClient {
     /**
      * Retrieve a single user by identity.
      * @param identity the numeric ID of the user represented as a string.
+     * @param directory the user details already retrieved in bulk, if any.
      * @returns the user.
      */
-    async getUser(identity: string): Promise<User> {
+    async getUser(identity: string, directory?: UserDirectory): Promise<User> {
+        const user = await this.getAdminUser(identity)
+        user.external_id = user.single_sign_on_record?.external_id ?? undefined
+        // Only fall back to the per-user calls when the details aren't known yet.
+        user.email = directory?.emails.get(user.id) ?? await this.getUserEmailAddress(user.username)
+        user.owned_groups = directory?.ownedGroups != null
+            ? directory.ownedGroups.get(user.id) ?? []
+            : await this.getOwnedGroups(user.username)
+        user.badges = directory?.badges != null
+            ? directory.badges.get(user.id) ?? []
+            : await this.getUserBadges(user.username)
+        return user
+    }
+
+    /**
+     * Retrieve the admin representation of a user, without its email, owned groups and badges.
+     * @param identity the numeric ID of the user represented as a string.
+     * @returns the partial user.
+     */
+    private async getAdminUser(identity: string): Promise<User> {
         const userResponse = await this.httpClient.get<User>(`/admin/users/${identity}.json`).catch((error: unknown) => {
-            throw new ConnectorError(`Failed to retrieve user ${identity}: Error ${error}`)
+            throw toDiscourseError(error, `Failed to retrieve user ${identity}`)
         })
 
-        let user = null
-        user = userResponse.data
-        user.email = await this.getUserEmailAddress(user.username)
-        return user
+        return userResponse.data
+    }
+
+    /**
+     * Retrieve the groups a user owns.
+     * @param username the username of the user
+     * @returns the owned groups, only including their id and name.
+     */
+    private async getOwnedGroups(username?: string): Promise<Group[]> {
+        const userResponse = await this.httpClient.get<UserUsernameResponse>(`/u/${username}.json`).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to retrieve owned groups for user ${username}`)
+        })
+
+        const groupUsers: GroupUser[] = userResponse.data.user?.group_users ?? []
+        const groups: Group[] = userResponse.data.user?.groups ?? []
+        const ownedGroupIds = groupUsers.filter(groupUser => groupUser.owner).map(groupUser => groupUser.group_id)
+        return groups
+            .filter(group => ownedGroupIds.includes(group.id))
+            .map(group => ({ id: group.id, name: group.name }))
+    }
+
+    /**
+     * Retrieve the owners of every group in bulk.
+     * @returns the owned groups, only including their id and name, keyed by user id.
+     */
+    async getGroupOwnerships(): Promise<Map<number, Group[]>> {
+        const ownedGroups = new Map<number, Group[]>()
+        let page = 0
+        let groups: Group[] = []
+        do {
+            groups = await this.getGroups(page)
+            for (const group of groups) {
+                for (const owner of await this.getGroupOwners(group.name)) {
+                    const userGroups = ownedGroups.get(owner.id) ?? []
+                    userGroups.push({ id: group.id, name: group.name })
+                    ownedGroups.set(owner.id, userGroups)
+                }
+            }
+            page++
+        } while (groups.length > 0)
+
+        return ownedGroups
+    }
+
+    /**
+    * Retrieve a single user by its DiscourseConnect external id.
+    * @param externalId the external id of the user
+    * @param directory the user details already retrieved in bulk, if any.
+    * @returns the user.
+    */
+    async getUserByExternalId(externalId: string, directory?: UserDirectory): Promise<User> {
+        const userResponse = await this.httpClient.get<UserUsernameResponse>(`/u/by-external/${encodeURIComponent(externalId)}.json`).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to retrieve user with external id ${externalId}`)
+        })
+
+        if (userResponse.data.user == null) {
+            throw new NotFoundError(`Failed to retrieve user with external id ${externalId}`)
+        }
+        // The public user representation lacks the admin fields, so read the full user by id.
+        return await this.getUser(userResponse.data.user.id.toString(), directory)
     }
 
     /**
@@ -374,7 +1350,7 @@ export class DiscourseClient {
     */
     async getUserByUsername(username?: string): Promise<User> {
         const userResponse = await this.httpClient.get<UserUsernameResponse>(`/u/${username}.json`).catch((error: unknown) => {
-            throw new ConnectorError(`Failed to retrieve user ${username}: Error ${error}`)
+            throw toDiscourseError(error, `Failed to retrieve user ${username}`)
         })
 
         let user = null
@@ -394,8 +1370,8 @@ export class DiscourseClient {
             params: {
                 page: page
             }
-        }).catch(() => {
-            throw new ConnectorError('Failed to retrieve list of groups')
+        }).catch((error: unknown) => {
+            throw toDiscourseError(error, 'Failed to retrieve list of groups')
         })
 
         groups = groups.concat(response.data.groups);
@@ -403,16 +1379,286 @@ export class DiscourseClient {
         return groups
     }
 
+    /**
+     * Get the owners of a group.
+     * @param name the name of the group
+     * @returns the partial users owning the group.
+     */
+    async getGroupOwners(name: string): Promise<User[]> {
+        const response = await this.httpClient.get<GroupMembers>(`/groups/${name}/members.json`, {
+            params: {
+                limit: 1
+            }
+        }).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to retrieve owners for group ${name}`)
+        })
+
+        return response.data.owners ?? []
+    }
+
     /**
      * Get a single group by ID.  The ID is the name of the group not the numeric ID.
      * @param name the name of the group
      * @returns a single group.
      */
     async getGroup(name: string): Promise<Group> {
-        const response = await this.httpClient.get<GroupResponse>(`/groups/${name}.json`).catch(() => {
-            throw new ConnectorError(`Failed to retrieve the ${name} group.`)
+        const response = await this.httpClient.get<GroupResponse>(`/groups/${name}.json`).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to retrieve group ${name}`)
         })
 
         return response.data.group
     }
-}
+
+    /**
+     * Create a group.
+     * @param group the group fields, including the comma separated usernames of its owners.
+     * @returns the created group.
+     */
+    async createGroup(group: GroupUpdate): Promise<Group> {
+        if (group.name == null) {
+            throw new ConnectorError('name is required to create a group')
+        }
+
+        await this.httpClient.post<void>('/admin/groups.json', {
+            group: group
+        }).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to create group ${group.name}`)
+        })
+
+        return await this.getGroup(group.name)
+    }
+
+    /**
+     * Update a group.  When owners are provided, they replace the current owners of the group.
+     * @param origGroup the group before the update.
+     * @param group the group fields to update.
+     * @returns the updated group.
+     */
+    async updateGroup(origGroup: Group, group: GroupUpdate): Promise<Group> {
+        const { owner_usernames, ...fields } = group
+        await this.httpClient.put<void>(`/groups/${origGroup.id}.json`, {
+            group: fields
+        }).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to update group ${origGroup.name}`)
+        })
+
+        if (owner_usernames != null) {
+            const usernames = owner_usernames.split(',').map(username => username.trim()).filter(username => username !== '')
+            const owners = await this.getGroupOwners(origGroup.name)
+
+            const ownersToAdd = usernames.filter(username => !owners.some(owner => owner.username == username))
+            if (ownersToAdd.length > 0) {
+                await this.addGroupOwners(origGroup.id, ownersToAdd)
+            }
+            for (const owner of owners.filter(owner => owner.username == null || !usernames.includes(owner.username))) {
+                await this.removeGroupOwner(origGroup.id, owner.id)
+            }
+        }
+
+        return await this.getGroup(group.name ?? origGroup.name)
+    }
+
+    /**
+     * Delete a group.
+     * @param groupId the numeric ID of the group.
+     * @returns true if the group was deleted.
+     */
+    async deleteGroup(groupId: number): Promise<boolean> {
+        await this.httpClient.delete<void>(`/admin/groups/${groupId}.json`).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to delete group ${groupId}`)
+        })
+
+        return true
+    }
+
+    private async addGroupOwners(groupId: number, usernames: string[]): Promise<boolean> {
+        await this.httpClient.put<void>(`/admin/groups/${groupId}/owners.json`, {
+            group: {
+                usernames: usernames.join(',')
+            }
+        }).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to add owners to group ${groupId}`)
+        })
+
+        return true
+    }
+
+    private async removeGroupOwner(groupId: number, userId: number): Promise<boolean> {
+        await this.httpClient.delete<void>(`/admin/groups/${groupId}/owners.json`, {
+            params: {
+                user_id: userId
+            }
+        }).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to remove owner ${userId} from group ${groupId}`)
+        })
+
+        return true
+    }
+
+    /**
+     * List all badges.
+     * @returns the badges.
+     */
+    async getBadges(): Promise<Badge[]> {
+        const response = await this.httpClient.get<BadgeListResponse>('/admin/badges.json').catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to retrieve list of badges`)
+        })
+
+        return response.data.badges ?? []
+    }
+
+    /**
+     * Get a single badge by ID.
+     * @param badgeId the numeric ID of the badge
+     * @returns a single badge.
+     */
+    async getBadge(badgeId: number): Promise<Badge> {
+        const response = await this.httpClient.get<BadgeResponse>(`/badges/${badgeId}.json`).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to retrieve badge ${badgeId}`)
+        })
+
+        if (response.data.badge == null) {
+            throw new NotFoundError(`Failed to retrieve badge ${badgeId}`)
+        }
+        return response.data.badge
+    }
+
+    /**
+     * Retrieve the badges granted to every user in bulk, paging through the grants of each badge.
+     * @returns the granted badges, only including their id and name, keyed by user id.
+     */
+    async getBadgeGrants(): Promise<Map<number, Badge[]>> {
+        const badges = new Map<number, Badge[]>()
+        for (const badge of await this.getBadges()) {
+            if (badge.enabled === false) {
+                continue
+            }
+
+            let offset = 0
+            let grants: UserBadge[] = []
+            do {
+                const response = await this.httpClient.get<UserBadgesResponse>('/user_badges.json', {
+                    params: {
+                        badge_id: badge.id,
+                        offset: offset
+                    }
+                }).catch((error: unknown) => {
+                    throw toDiscourseError(error, `Failed to retrieve grants of badge ${badge.name}`)
+                })
+
+                grants = response.data.user_badges ?? []
+                for (const grant of grants) {
+                    const userBadges = badges.get(grant.user_id) ?? []
+                    if (!userBadges.some(userBadge => userBadge.id == badge.id)) {
+                        userBadges.push({ id: badge.id, name: badge.name })
+                    }
+                    badges.set(grant.user_id, userBadges)
+                }
+                offset += grants.length
+            } while (grants.length > 0)
+        }
+
+        return badges
+    }
+
+    /**
+     * Retrieve the badges granted to a user.
+     * @param username the username of the user
+     * @returns the granted badges, only including their id and name.
+     */
+    private async getUserBadges(username?: string): Promise<Badge[]> {
+        const response = await this.getUserBadgeGrants(username)
+        const grantedBadgeIds = (response.user_badges ?? []).map(grant => grant.badge_id)
+        const badges: Badge[] = response.badges ?? []
+        return badges
+            .filter(badge => grantedBadgeIds.includes(badge.id))
+            .map(badge => ({ id: badge.id, name: badge.name }))
+    }
+
+    private async getUserBadgeGrants(username?: string): Promise<UserBadgesResponse> {
+        const response = await this.httpClient.get<UserBadgesResponse>(`/user-badges/${username}.json`).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to retrieve badges of user ${username}`)
+        })
+
+        return response.data
+    }
+
+    private async grantBadge(badgeId: number, username?: string): Promise<boolean> {
+        await this.httpClient.post<void>('/user_badges.json', {
+            username: username,
+            badge_id: badgeId
+        }).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to grant badge ${badgeId} to user ${username}`)
+        })
+
+        return true
+    }
+
+    private async revokeBadge(userBadgeId: number): Promise<boolean> {
+        await this.httpClient.delete<void>(`/user_badges/${userBadgeId}.json`).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to revoke badge grant ${userBadgeId}`)
+        })
+
+        return true
+    }
+
+    /**
+     * List all categories, including subcategories, with the permissions groups have on them.
+     * The permissions are not part of the category list, so each category is read separately,
+     * at most maxConcurrency at a time.
+     * @returns the categories.
+     */
+    async getCategories(): Promise<Category[]> {
+        const response = await this.httpClient.get<CategoryListResponse>('/categories.json', {
+            params: {
+                include_subcategories: true
+            }
+        }).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to retrieve list of categories`)
+        })
+
+        const listed: Category[] = []
+        for (const category of response.data.category_list?.categories ?? []) {
+            listed.push(category, ...(category.subcategory_list ?? []))
+        }
+
+        const categories: Category[] = []
+        const pool = new WorkerPool(this.maxConcurrency)
+        for (const [index, category] of listed.entries()) {
+            await pool.submit(async () => {
+                categories[index] = await this.getCategory(category.id)
+            })
+        }
+        await pool.drain()
+
+        return categories
+    }
+
+    /**
+     * Get a single category by ID, including the permissions groups have on it.
+     * @param categoryId the numeric ID of the category
+     * @returns a single category.
+     */
+    async getCategory(categoryId: number): Promise<Category> {
+        const response = await this.httpClient.get<CategoryResponse>(`/c/${categoryId}/show.json`).catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to retrieve category ${categoryId}`)
+        })
+
+        if (response.data.category == null) {
+            throw new NotFoundError(`Failed to retrieve category ${categoryId}`)
+        }
+        return response.data.category
+    }
+
+    /**
+     * List the custom user fields of the site.
+     * @returns the user fields.
+     */
+    async getUserFields(): Promise<UserField[]> {
+        const response = await this.httpClient.get<UserFieldsResponse>('/admin/customize/user_fields.json').catch((error: unknown) => {
+            throw toDiscourseError(error, `Failed to retrieve list of user fields`)
+        })
+
+        return response.data.user_fields ?? []
+    }
+}
\ No newline at end of file
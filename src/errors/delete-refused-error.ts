@@ -0,0 +1,17 @@
+import { ConnectorError, ConnectorErrorType } from '@sailpoint/connector-sdk'
+
+/**
+ * Thrown when Discourse refuses to delete a user with a given strategy
+ */
+
+export class DeleteRefusedError extends ConnectorError {
+    /**
+     * Constructor
+     * @param message Error message
+     * @param type ConnectorErrorType they type of error
+     */
+    constructor(message: string, type?: ConnectorErrorType) {
+        super(message, type)
+        this.name = 'DeleteRefusedError'
+    }
+}
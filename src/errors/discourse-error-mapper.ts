@@ -0,0 +1,80 @@
+import { AxiosError } from 'axios'
+import { ConnectorError } from '@sailpoint/connector-sdk'
+import { DiscourseError } from './discourse-error'
+import { NotFoundError } from './not-found-error'
+import { ConflictError } from './conflict-error'
+import { ValidationError } from './validation-error'
+import { AuthorizationError } from './authorization-error'
+import { RateLimitedError } from './rate-limited-error'
+import { ServerError } from './server-error'
+
+// The validation errors of Discourse for an object that already exists or a user already in the requested state,
+// ex. "Username must be unique", "Primary email has already been taken" or "bob is already a member of this group.".
+// Other validation errors, even mentioning "already" or "exist", are not conflicts.  Discourse answers an
+// already suspended or silenced user with a 409.
+const CONFLICT_MESSAGES = [
+    /\bmust be unique\.?$/i,
+    /\bhas already been taken\.?$/i,
+    /\bis already a member of this group\.?$/i,
+    /\bare already members of this group\b/i
+]
+
+const isConflictMessage = (error: string) => CONFLICT_MESSAGES.some(pattern => pattern.test(error))
+
+/**
+ * Maps a failed Discourse request to a typed error from the status, `errors` and `error_type` of the error response.
+ * @param error the error of the request.
+ * @param message what failed, followed by the errors reported by Discourse.
+ * @returns the typed error, or the error itself when it is already a ConnectorError.
+ */
+export function toDiscourseError(error: unknown, message: string): ConnectorError {
+    if (error instanceof ConnectorError) {
+        return error
+    }
+
+    const response = (error as AxiosError)?.response
+    if (response == null) {
+        return new ConnectorError(`${message}: ${error}`)
+    }
+
+    const status = response.status
+    const data = response.data ?? {}
+    const errors: string[] = Array.isArray(data.errors) ? data.errors.map(String)
+        : typeof data.error === 'string' ? [data.error] : []
+    const errorType: string | undefined = data.error_type
+    const fullMessage = `${message}: ${errors.length > 0 ? errors.join(' ') : (error as AxiosError).message}`
+
+    if (status == 404 || errorType == 'not_found') {
+        return new NotFoundError(fullMessage, status, errors)
+    } else if (status == 429 || errorType == 'rate_limit') {
+        return new RateLimitedError(fullMessage, status, errors)
+    } else if (status == 401 || status == 403 || errorType == 'invalid_access' || errorType == 'not_logged_in') {
+        return new AuthorizationError(fullMessage, status, errors)
+    } else if (status == 409 || (status == 422 && errors.some(isConflictMessage))) {
+        return new ConflictError(fullMessage, status, errors)
+    } else if (status == 400 || status == 422 || errorType == 'invalid_parameters') {
+        return new ValidationError(fullMessage, status, errors)
+    } else if (status >= 500) {
+        return new ServerError(fullMessage, status, errors)
+    }
+    return new DiscourseError(fullMessage, status, errors)
+}
+
+/**
+ * Maps the errors of each field, which Discourse reports when it can't create a user, to a conflict when the
+ * user already exists or to a validation error otherwise.
+ * @param message what failed, followed by the errors reported by Discourse.
+ * @param fieldErrors the errors of each field.
+ * @param summary the error message reported by Discourse, used when there are no field errors.
+ * @returns the typed error.
+ */
+export function fromFieldErrors(message: string, fieldErrors: {[field: string]: string[]} = {}, summary?: string): DiscourseError {
+    const errors = Object.entries(fieldErrors).flatMap(([field, fieldMessages]) => fieldMessages.map(m => `${field} ${m}`))
+    if (errors.length == 0 && summary) {
+        errors.push(summary)
+    }
+    const fullMessage = errors.length > 0 ? `${message}: ${errors.join(', ')}` : message
+    return errors.some(isConflictMessage)
+        ? new ConflictError(fullMessage, 200, errors)
+        : new ValidationError(fullMessage, 200, errors)
+}
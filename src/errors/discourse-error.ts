@@ -0,0 +1,19 @@
+import { ConnectorError, ConnectorErrorType } from '@sailpoint/connector-sdk'
+
+/**
+ * Thrown when Discourse answers a request with an error response
+ */
+
+export class DiscourseError extends ConnectorError {
+    /**
+     * Constructor
+     * @param message Error message
+     * @param status the HTTP status of the error response
+     * @param errors the errors reported by Discourse
+     * @param type ConnectorErrorType they type of error
+     */
+    constructor(message: string, readonly status?: number, readonly errors: string[] = [], type?: ConnectorErrorType) {
+        super(message, type)
+        this.name = 'DiscourseError'
+    }
+}
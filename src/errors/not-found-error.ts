@@ -0,0 +1,19 @@
+import { ConnectorErrorType } from '@sailpoint/connector-sdk'
+import { DiscourseError } from './discourse-error'
+
+/**
+ * Thrown when the requested user, group or other object doesn't exist in Discourse
+ */
+
+export class NotFoundError extends DiscourseError {
+    /**
+     * Constructor
+     * @param message Error message
+     * @param status the HTTP status of the error response
+     * @param errors the errors reported by Discourse
+     */
+    constructor(message: string, status?: number, errors: string[] = []) {
+        super(message, status, errors, ConnectorErrorType.NotFound)
+        this.name = 'NotFoundError'
+    }
+}
@@ -0,0 +1,19 @@
+import { ConnectorErrorType } from '@sailpoint/connector-sdk'
+import { DiscourseError } from './discourse-error'
+
+/**
+ * Thrown when Discourse fails to process a request
+ */
+
+export class ServerError extends DiscourseError {
+    /**
+     * Constructor
+     * @param message Error message
+     * @param status the HTTP status of the error response
+     * @param errors the errors reported by Discourse
+     */
+    constructor(message: string, status?: number, errors: string[] = []) {
+        super(message, status, errors, ConnectorErrorType.Generic)
+        this.name = 'ServerError'
+    }
+}
@@ -7,6 +7,16 @@ import userUsername from "./user-username.json"
 import dummyResponse from "./dummy-response.json"
 import userUpdateResponse from "./user-update-response.json"
 import groupResponse  from "./group-response.json";
+import userListResponse from "./user-list-response.json";
+import badgeListResponse from "./badge-list-response.json";
+import userBadgesResponse from "./user-badges-response.json";
+import categoryListResponse from "./category-list-response.json";
+import categoryResponse from "./category-response.json";
+import userFieldsResponse from "./user-fields-response.json";
+import siteSettingsResponse from "./site-settings-response.json";
+import aboutResponse from "./about-response.json";
+import directoryItemsResponse from "./directory-items-response.json";
+import staffActionLogsResponse from "./staff-action-logs-response.json";
 import { HTTP } from "../http";
 
 
@@ -21,12 +31,44 @@ export class AxiosWrapper implements HTTP {
             response.data = groupMembers;
         } else if (url.indexOf("/admin/users/list/staff.json") === 0) {
             response.data = groupListResponse;
-        } else if (url.indexOf("/members.json") === 0) {
+        } else if (url.indexOf("/admin/users/list/staged.json") === 0) {
+            response.data = []
+        } else if (url.indexOf("/admin/users/list/") === 0) {
+            response.data = data.params.page === 1 ? userListResponse : []
+        } else if (url.indexOf("/members.json") > 0) {
             response.data = groupMembers;
         } else if (url.indexOf("emails.json") > 0) {
             response.data = (<any>userEmail)[url];
+        } else if (url.indexOf("/admin/badges.json") === 0) {
+            response.data = badgeListResponse
+        } else if (url.indexOf("/badges/") === 0) {
+            response.data = { badge: badgeListResponse.badges[1] }
+        } else if (url.indexOf("/user_badges.json") === 0) {
+            response.data = data.params.badge_id === 1 && data.params.offset === 0 ? userBadgesResponse : { user_badges: [] }
+        } else if (url.indexOf("/user-badges/") === 0) {
+            response.data = userBadgesResponse
+        } else if (url.indexOf("/categories.json") === 0) {
+            response.data = categoryListResponse
+        } else if (url.indexOf("/c/") === 0) {
+            response.data = (<any>categoryResponse)[url]
+        } else if (url.indexOf("/admin/customize/user_fields.json") === 0) {
+            response.data = userFieldsResponse
         } else if (url.indexOf("/admin/users/") === 0) {
             response.data = (<any>user)[url]
+        } else if (url.indexOf("/admin/site_settings.json") === 0) {
+            response.data = siteSettingsResponse
+        } else if (url.indexOf("/admin/logs/staff_action_logs.json") === 0) {
+            response.data = data.params.page === 0 ? staffActionLogsResponse : { staff_action_logs: [] }
+        } else if (url.indexOf("/directory_items.json") === 0) {
+            response.data = data.params.name === "E1305" ? directoryItemsResponse : { directory_items: [] }
+        } else if (url.indexOf("/about.json") === 0) {
+            response.data = aboutResponse
+        } else if (url.indexOf("/u/apiKey.json") === 0) {
+            // The API username of the tests is an admin.
+            response.data = { user: { ...userUsername.user, username: "apiKey", admin: true } }
+        } else if (url.indexOf("/u/check_username.json") === 0) {
+            const taken = ["test", "test2"].includes(data.params.username.toLowerCase())
+            response.data = taken ? { available: false, suggestion: `${data.params.username}1` } : { available: true }
         } else if (url.indexOf("/u/") === 0) {
             response.data = userUsername;
         } else if (url.indexOf("/groups.json") === 0) {
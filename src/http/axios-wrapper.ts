@@ -1,44 +1,67 @@
-import axios, { AxiosInstance } from "axios"
+import axios, { AxiosInstance, AxiosProxyConfig } from "axios"
 import axiosRetry from "axios-retry"
 import { Config } from "../model/config"
 import { HTTP } from "./http";
+import { normalizeBaseUrl } from "./base-url"
+import { createHttpsAgent } from "./https-agent"
+import { RateLimiter } from "../tools/rate-limiter"
+import { logger } from "../tools/logger"
+
+const DEFAULT_REQUESTS_PER_MINUTE = 60
+const DEFAULT_MAX_RETRIES = 15
+const DEFAULT_TIMEOUT_SECONDS = 60
 
 export class AxiosWrapper implements HTTP {
     httpClient: AxiosInstance;
+    private readonly rateLimiter: RateLimiter
     constructor(config: Config) {
+        const baseUrl = config.baseUrl != null ? normalizeBaseUrl(config.baseUrl) : undefined
         this.httpClient = axios.create({
-            baseURL: config.baseUrl,
+            baseURL: baseUrl,
+            timeout: (config.requestTimeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000,
+            httpsAgent: createHttpsAgent(config),
+            // The agent proxies https requests, axios only proxies plain http requests.
+            proxy: config.proxyUrl ? this.httpProxy(config.proxyUrl, baseUrl) : undefined,
             headers: {
                 'Api-Key': config.apiKey ? config.apiKey : '',
                 'Api-Username': config.apiUsername ? config.apiUsername : ''
             }
         })
 
-        // Wrap our Axios HTTP client in an Axios retry object to automatically
-        // handle rate limiting.  By default, this logic will retry a given
-        // API call 3 times before failing.  Read the documentation for 
-        // axios-retry on NPM to see more configuration options.
+        // Throttle requests to stay within Discourse's admin API rate limit, which defaults to
+        // 60 requests per minute per API key.
+        this.rateLimiter = new RateLimiter(config.rateLimitPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE)
+        this.httpClient.interceptors.request.use(async (request) => {
+            await this.rateLimiter.acquire()
+            return request
+        })
+
+        // Retry rate limited requests after the time Discourse asks to wait, or with an exponential
+        // delay when it doesn't tell.
         axiosRetry(this.httpClient, {
-            retries: 15,
-            retryDelay: axiosRetry.exponentialDelay,
-            retryCondition: (error) => {
-                // Only retry if the API call recieves an error code of 429
-                if (error.response) {
-                    if (error.response.status === 429) {
-                        console.log('Rate limited, retrying...')
-                        return true;
-                    } else {
-                        return false;
-                    }
-                    
-                } else {
-                    return false;
-                }
-            }
-            
+            retries: config.rateLimitMaxRetries ?? DEFAULT_MAX_RETRIES,
+            retryDelay: (retryCount, error) => {
+                const delay = this.rateLimiter.retryDelay(error) ?? axiosRetry.exponentialDelay(retryCount)
+                logger.warn(`Rate limited on ${error.config?.url}, retry ${retryCount} in ${delay} ms`)
+                return delay
+            },
+            retryCondition: (error) => error.response?.status === 429
         })
     }
 
+    private httpProxy(proxyUrl: string, baseUrl?: string): AxiosProxyConfig | false {
+        if (baseUrl == null || !baseUrl.startsWith('http:')) {
+            return false
+        }
+        const proxy = new URL(proxyUrl)
+        return {
+            protocol: proxy.protocol.replace(/:$/, ''),
+            host: proxy.hostname,
+            port: Number(proxy.port || (proxy.protocol == 'https:' ? 443 : 80)),
+            auth: proxy.username ? { username: decodeURIComponent(proxy.username), password: decodeURIComponent(proxy.password) } : undefined
+        }
+    }
+
     async get<T = any>(url: string, data?: any) {
         return this.httpClient.get<T>(url, data);
     }
@@ -0,0 +1,17 @@
+/**
+ * Normalizes the base URL of a Discourse site, including sites installed in a subfolder
+ * (ex. https://developer.sailpoint.com/discuss): adds the https scheme when it is missing, removes the
+ * query and fragment, and ends the path with a single slash so that request paths are appended to it.
+ * @param baseUrl the base URL from the configuration.
+ * @returns the normalized base URL, ex. https://developer.sailpoint.com/discuss/
+ * @throws TypeError when the base URL isn't a valid http or https URL.
+ */
+export function normalizeBaseUrl(baseUrl: string): string {
+    const trimmed = baseUrl.trim()
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`)
+    if (url.protocol != 'http:' && url.protocol != 'https:') {
+        throw new TypeError(`Unsupported protocol ${url.protocol}`)
+    }
+
+    return `${url.origin}${url.pathname.replace(/\/+$/, '')}/`
+}
@@ -0,0 +1,46 @@
+import https from "https"
+import tls from "tls"
+import { ClientRequest } from "http"
+import { Socket } from "net"
+import { HttpsProxyAgent } from "https-proxy-agent"
+import { Config } from "../model/config"
+
+type ProxyRequestOptions = Parameters<HttpsProxyAgent['callback']>[1]
+
+/**
+ * HttpsProxyAgent only applies its TLS options to the connection to the proxy, so apply them to the
+ * connection to Discourse as well.
+ */
+class TlsHttpsProxyAgent extends HttpsProxyAgent {
+    constructor(proxyUrl: string, private readonly tlsOptions: tls.ConnectionOptions) {
+        super(proxyUrl)
+    }
+
+    async callback(req: ClientRequest, opts: ProxyRequestOptions): Promise<Socket> {
+        return super.callback(req, { ...opts, ...this.tlsOptions })
+    }
+}
+
+/**
+ * Creates the agent of the https requests to Discourse, with the configured proxy, extra CA certificates
+ * and client certificate.
+ * @param config the connector configuration.
+ * @returns the agent, or undefined when the defaults of Node.js are used.
+ */
+export function createHttpsAgent(config: Config): https.Agent | undefined {
+    const tlsOptions: tls.ConnectionOptions = {}
+    if (config.caCertificates) {
+        // Trust the extra CA certificates in addition to the default ones.
+        tlsOptions.ca = [...tls.rootCertificates, config.caCertificates]
+    }
+    if (config.clientCertificate) {
+        tlsOptions.cert = config.clientCertificate
+        tlsOptions.key = config.clientKey
+        tlsOptions.passphrase = config.clientKeyPassphrase || undefined
+    }
+
+    if (config.proxyUrl) {
+        return new TlsHttpsProxyAgent(config.proxyUrl, tlsOptions)
+    }
+    return Object.keys(tlsOptions).length > 0 ? new https.Agent(tlsOptions) : undefined
+}
@@ -26,15 +26,26 @@ import {
     StdAccountDisableOutput,
     StdAccountUnlockInput,
     StdAccountUnlockOutput,
-    StdTestConnectionInput
+    StdTestConnectionInput,
+    StdAccountDiscoverSchemaOutput
 } from '@sailpoint/connector-sdk'
 import { DiscourseClient } from './discourse-client'
 import { User } from './model/user'
-import { Util } from './tools/util'
+import { ROLE_NAMES, TRUST_LEVEL_NAMES, Util } from './tools/util'
+import { WorkerPool } from './tools/worker-pool'
 import { logger } from './tools/logger';
 import { Config } from './model/config';
+import { AggregationState } from './model/aggregation-state';
+import { GroupCommandInput } from './model/group-command-input';
+import { UserSilenceCommandInput } from './model/user-silence-command-input';
+import { UserDirectory } from './model/user-directory';
+import { UserFieldMapping } from './model/user-field-mapping';
+import { NotFoundError } from './errors/not-found-error';
 
 
+// Account identities with this prefix are DiscourseConnect external ids, ex. external:12345
+const EXTERNAL_ID_PREFIX = 'external:'
+
 // Connector must be exported as module property named connector
 export const connector = async () => {
 
@@ -42,62 +53,169 @@ export const connector = async () => {
     const config: Config = await readConfig()
     
     const util = new Util();
+    const userFields = util.parseUserFieldMappings(config.userFieldMappings)
 
     // Use the vendor SDK, or implement own client as necessary, to initialize a client
     const discourseClient = new DiscourseClient(config)
 
+    // Every custom user field is aggregated under its discovered name, so read the user fields once when an account is needed.
+    let siteUserFields: Promise<UserFieldMapping[]> | undefined
+    const getUserFieldMappings = (): Promise<UserFieldMapping[]> => {
+        if (siteUserFields == null) {
+            siteUserFields = discourseClient.getUserFields()
+                .then(fields => util.siteUserFieldMappings(fields, config.employeeIdFieldId, userFields))
+                .catch((error: unknown) => {
+                    logger.warn(`Only the mapped user fields are used, the user fields could not be read: ${error}`)
+                    return userFields
+                })
+        }
+        return siteUserFields
+    }
+
+    // The silence disable strategy and the must approve users setting decide whether an account is disabled or locked.
+    const toAccount = async (user: User): Promise<StdAccountCreateOutput> => {
+        return util.userToAccount(user, config.employeeIdFieldId, await getUserFieldMappings(), config.mustApproveUsers, config.disableStrategy == 'silence')
+    }
+
+    // The category permissions take a request per category, so they are read once for the group entitlements
+    // and only refreshed by the group entitlement aggregation.
+    let categoryPermissions: Promise<Map<string, string[]>> | undefined
+    const getCategoryPermissions = (refresh = false): Promise<Map<string, string[]>> => {
+        if (categoryPermissions == null || refresh) {
+            const permissions = discourseClient.getCategories().then(categories => util.categoryPermissionsByGroup(categories))
+            // A failure isn't cached, the next group entitlement reads them again.
+            permissions.catch(() => {
+                if (categoryPermissions === permissions) {
+                    categoryPermissions = undefined
+                }
+            })
+            categoryPermissions = permissions
+        }
+        return categoryPermissions
+    }
+
     return createConnector()
         .stdTestConnection(async (context: Context, input: StdTestConnectionInput, res: Response<StdTestConnectionOutput>) => {
             logger.debug('testing connector')
             res.send(await discourseClient.testConnection())
         })
+        .stdAccountDiscoverSchema(async (context: Context, input: undefined, res: Response<StdAccountDiscoverSchemaOutput>) => {
+            logger.debug('discovering account schema')
+            const fields = await discourseClient.getUserFields()
+            logger.debug(fields, 'discourse user fields found')
+            res.send(util.accountSchema(fields, config.employeeIdFieldId, userFields))
+        })
         .stdAccountCreate(async (context: Context, input: StdAccountCreateInput, res: Response<StdAccountCreateOutput>) => {
             logger.debug(input, 'account create input object')
-            const user = await discourseClient.createUser(util.accountToUser(input, config.employeeIdFieldId))
+            const user = await discourseClient.createUser(util.accountToUser(input, config.employeeIdFieldId, await getUserFieldMappings()))
             logger.debug(user, 'new discourse user object')
-            res.send(util.userToAccount(user, config.employeeIdFieldId))
+            res.send(await toAccount(user))
         })
         .stdAccountList(async (context: Context, input: StdAccountListInput, res: Response<StdAccountListOutput>) => {
             logger.debug('listing accounts')
-            let resultsCount = 5
-            let offset = 0
-            while (resultsCount == 5) {
-                const users = await discourseClient.getUsers(offset, 5)
-                resultsCount = users.length
-                logger.debug(users, 'discourse users found')
-                for (const user of users) {
-                    res.send(util.userToAccount(user, config.employeeIdFieldId))
+            // Only send the accounts that changed since the last aggregation when a usable state was saved.
+            let state = input.stateful && config.deltaAggregation
+                ? util.readAggregationState(input.state, config.deltaStateMaxAgeHours ?? 168)
+                : undefined
+            const aggregationStart = new Date().toISOString()
+            // Admin changes, ex. a suspension or a new group, don't update the timestamps of the users, so the
+            // targets of the staff actions are sent as well.  Without the staff action logs a full aggregation runs.
+            const changedIds = state
+                ? await discourseClient.getStaffActionTargetIds(state.lastAggregation).catch((error: unknown) => {
+                    logger.warn(`Running a full aggregation, the staff action logs could not be read: ${error}`)
+                    return undefined
+                })
+                : undefined
+            if (changedIds == null) {
+                state = undefined
+            }
+            logger.debug(`running ${state ? 'delta' : 'full'} account aggregation`)
+
+            const previousMemberIds = new Set(state?.memberIds)
+            const memberIds = new Set<number>()
+            // Retrieving the user details in bulk saves requests per account, which only pays off for full aggregations.
+            // The admin user lists used by the other scopes already include the emails.
+            const directory = new UserDirectory()
+            if (!state && config.bulkEmailLookup !== false && (config.aggregationScope ?? 'groups') == 'groups') {
+                directory.emails = await discourseClient.getUserEmails()
+            }
+            if (!state) {
+                directory.ownedGroups = await discourseClient.getGroupOwnerships()
+                directory.badges = await discourseClient.getBadgeGrants()
+            }
+
+            // Hydrated accounts are sent as soon as they are ready while the next pages are being listed.
+            const pool = new WorkerPool(discourseClient.maxConcurrency)
+            for await (const member of discourseClient.listScopeUsers()) {
+                memberIds.add(member.id)
+                if (member.email && !directory.emails.has(member.id)) {
+                    directory.emails.set(member.id, member.email)
                 }
-                offset += 5
+                if (state && previousMemberIds.has(member.id) && !changedIds?.has(member.id) && !util.hasActivitySince(member, state.lastAggregation)) {
+                    continue
+                }
+                await pool.submit(async () => {
+                    const user = await discourseClient.getUser(member.id.toString(), directory)
+                    logger.debug(user, 'discourse user found')
+                    res.send(await toAccount(user))
+                })
             }
-            
+            await pool.drain()
 
+            // Report the accounts that left the aggregation scope since the last aggregation.
+            for (const id of previousMemberIds) {
+                if (!memberIds.has(id)) {
+                    res.send(util.deletedAccount(id))
+                }
+            }
+            if (input.stateful) {
+                const newState = new AggregationState()
+                newState.lastAggregation = aggregationStart
+                newState.memberIds = Array.from(memberIds)
+                res.saveState(newState)
+            }
         })
         .stdAccountRead(async (context: Context, input: StdAccountReadInput, res: Response<StdAccountReadOutput>) => {
             logger.debug(input, 'account read input object')
-            const user = await discourseClient.getUser(input.identity)
+            // Identities prefixed with external: or that aren't a Discourse user id are read as DiscourseConnect external ids.
+            // Numeric external ids, ex. employee numbers, are read as external ids when no user has that id.
+            let user: User
+            if (input.identity?.startsWith(EXTERNAL_ID_PREFIX)) {
+                user = await discourseClient.getUserByExternalId(input.identity.substring(EXTERNAL_ID_PREFIX.length))
+            } else if (/^\d+$/.test(input.identity)) {
+                user = await discourseClient.getUser(input.identity).catch((error: unknown) => {
+                    if (error instanceof NotFoundError) {
+                        return discourseClient.getUserByExternalId(input.identity)
+                    }
+                    throw error
+                })
+            } else {
+                user = await discourseClient.getUserByExternalId(input.identity)
+            }
             logger.debug(user, 'discourse user found')
-            res.send(util.userToAccount(user, config.employeeIdFieldId))
+            res.send(await toAccount(user))
         })
         .stdAccountEnable(async (context: Context, input: StdAccountEnableInput, res: Response<StdAccountEnableOutput>) => {
             logger.debug(input, 'account enable input object')
-            const suspended = await discourseClient.unsuspendUser(input.identity)
+            const enabled = await discourseClient.enableUser(await discourseClient.getUser(input.identity))
             const user = await discourseClient.getUser(input.identity)
-            if (suspended && user) {
-                res.send(util.userToAccount(user, config.employeeIdFieldId))
+            if (enabled && user) {
+                res.send(await toAccount(user))
             } else {
-                throw new ConnectorError('Failed to unsuspend user')
+                throw new ConnectorError('Failed to enable user')
             }
         })
         .stdAccountUnlock(async (context: Context, input: StdAccountUnlockInput, res: Response<StdAccountUnlockOutput>) => {
             logger.debug(input, 'account unlock input object')
+            const unlocked = await discourseClient.unlockUser(await discourseClient.getUser(input.identity))
+            if (!unlocked) {
+                throw new ConnectorError('Failed to unlock user')
+            }
             const user = await discourseClient.getUser(input.identity)
-            const resetPassword = await discourseClient.forgotPassword(user.username)
-            if (resetPassword && user) {
-                res.send(util.userToAccount(user, config.employeeIdFieldId))
-            } else {
+            if (config.unlockSendPasswordReset && !await discourseClient.forgotPassword(user.username)) {
                 throw new ConnectorError('Failed to send user password change email')
             }
+            res.send(await toAccount(user))
         })
         .stdAccountDisable(async (context: Context, input: StdAccountDisableInput, res: Response<StdAccountDisableOutput>) => {
             logger.debug(input, 'account disable input object')
@@ -105,12 +223,12 @@ export const connector = async () => {
             if (user.admin) {
                 await discourseClient.revokeAdmin(input.identity)
             }
-            const suspended = await discourseClient.suspendUser(input.identity)
-            
-            if (suspended && user) {
-                res.send(util.userToAccount(user, config.employeeIdFieldId))
+            const disabled = await discourseClient.disableUser(user)
+
+            if (disabled && user) {
+                res.send(await toAccount(await discourseClient.getUser(input.identity)))
             } else {
-                throw new ConnectorError('Failed to suspend user')
+                throw new ConnectorError('Failed to disable user')
             }
             
         })
@@ -118,7 +236,7 @@ export const connector = async () => {
             logger.debug(input, 'account update input object')
             const origUser = await discourseClient.getUser(input.identity)
             logger.debug(origUser, 'discourse user found')
-            const account = util.userToAccount(origUser, config.employeeIdFieldId)
+            const account = await toAccount(origUser)
 
             input.changes.forEach(c => {
                 switch (c.op) {
@@ -136,14 +254,18 @@ export const connector = async () => {
                 }
             })
     
-            const preUpdateUser = util.accountToUser(account, config.employeeIdFieldId)
+            // Only the user fields of the changed attributes are written, the others keep their value in Discourse.
+            const changedAttributes = input.changes.map(c => c.attribute)
+            const changedUserFields = (await getUserFieldMappings()).filter(userField => changedAttributes.includes(userField.attribute))
+            const employeeIdField = changedAttributes.includes('employeeId') ? config.employeeIdFieldId : undefined
+            const preUpdateUser = util.accountToUser(account, employeeIdField, changedUserFields)
             if ('uuid' in account) {
                 const updatedUser = await discourseClient.updateUser(origUser, preUpdateUser, account.uuid)
                 logger.debug(updatedUser, 'updated user')
                 if (User.equals(origUser, updatedUser)) {
                     res.send({})
                 } else {
-                    res.send(util.userToAccount(updatedUser, config.employeeIdFieldId))
+                    res.send(await toAccount(updatedUser))
                 }
             } else {
                 throw new ConnectorError('unexpected type returned in user object')
@@ -155,10 +277,37 @@ export const connector = async () => {
             if (user.admin) {
                 await discourseClient.revokeAdmin(input.identity)
             }
-            res.send(await discourseClient.deleteUser(input.identity))
+            res.send(await discourseClient.deleteUser(user))
         })
         .stdEntitlementList(async (context: Context, input: StdEntitlementListInput, res: Response<StdEntitlementListOutput>) => {
-            logger.debug('listing entitlements')
+            logger.debug(`listing ${input.type} entitlements`)
+            if (input.type == 'trustLevel') {
+                for (let level = 0; level < TRUST_LEVEL_NAMES.length; level++) {
+                    res.send(util.trustLevelToEntitlement(level))
+                }
+                return
+            }
+            if (input.type == 'role') {
+                for (const role of Object.keys(ROLE_NAMES)) {
+                    res.send(util.roleToEntitlement(role))
+                }
+                return
+            }
+            if (input.type == 'badge') {
+                for (const badge of await discourseClient.getBadges()) {
+                    res.send(util.badgeToEntitlement(badge))
+                }
+                return
+            }
+
+            if (input.type == 'category') {
+                for (const category of await discourseClient.getCategories()) {
+                    res.send(util.categoryToEntitlement(category))
+                }
+                return
+            }
+
+            const permissions = await getCategoryPermissions(true)
             let page = 0
             let hasMorePages = true
             while (hasMorePages) {
@@ -168,7 +317,8 @@ export const connector = async () => {
                 } else {
                     logger.debug(groups, 'discourse groups found')
                     for (const group of groups) {
-                        res.send(util.groupToEntitlement(group))
+                        const owners = await discourseClient.getGroupOwners(group.name)
+                        res.send(util.groupToEntitlement(group, owners, input.type, permissions.get(group.name)))
                     }
                 }
                 page++
@@ -177,8 +327,72 @@ export const connector = async () => {
         })
         .stdEntitlementRead(async (context: Context, input: StdEntitlementReadInput, res: Response<StdEntitlementReadOutput>) => {
             logger.debug(input, 'entitlement read input object')
+            if (input.type == 'trustLevel') {
+                res.send(util.trustLevelToEntitlement(util.parseTrustLevel(input.identity)))
+                return
+            }
+            if (input.type == 'role') {
+                res.send(util.roleToEntitlement(input.identity))
+                return
+            }
+            if (input.type == 'badge') {
+                // Badge identities use the same id:name format as groups.
+                const badge = await discourseClient.getBadge(util.parseGroupIdentity(input.identity).id)
+                res.send(util.badgeToEntitlement(badge))
+                return
+            }
+            if (input.type == 'category') {
+                // Category identities use the same id:name format as groups.
+                const category = await discourseClient.getCategory(util.parseGroupIdentity(input.identity).id)
+                res.send(util.categoryToEntitlement(category))
+                return
+            }
             const group = await discourseClient.getGroup(input.identity)
             logger.debug(group, 'discourse group found')
-            res.send(util.groupToEntitlement(group))
+            const owners = await discourseClient.getGroupOwners(group.name)
+            res.send(util.groupToEntitlement(group, owners, input.type, (await getCategoryPermissions()).get(group.name)))
+        })
+        .command('discourse:group:create', async (context: Context, input: GroupCommandInput, res: Response<StdEntitlementReadOutput>) => {
+            logger.debug(input, 'group create input object')
+            const group = await discourseClient.createGroup(util.attributesToGroupUpdate(input.attributes ?? {}))
+            logger.debug(group, 'new discourse group object')
+            const owners = await discourseClient.getGroupOwners(group.name)
+            res.send(util.groupToEntitlement(group, owners, 'group', (await getCategoryPermissions()).get(group.name)))
+        })
+        .command('discourse:group:update', async (context: Context, input: GroupCommandInput, res: Response<StdEntitlementReadOutput>) => {
+            logger.debug(input, 'group update input object')
+            if (input.identity == null) {
+                throw new ConnectorError('identity is required to update a group')
+            }
+            const origGroup = await discourseClient.getGroup(util.parseGroupIdentity(input.identity).name)
+            const group = await discourseClient.updateGroup(origGroup, util.attributesToGroupUpdate(input.attributes ?? {}))
+            logger.debug(group, 'updated discourse group object')
+            const owners = await discourseClient.getGroupOwners(group.name)
+            res.send(util.groupToEntitlement(group, owners, 'group', (await getCategoryPermissions()).get(group.name)))
+        })
+        .command('discourse:group:delete', async (context: Context, input: GroupCommandInput, res: Response<StdAccountDeleteOutput>) => {
+            logger.debug(input, 'group delete input object')
+            if (input.identity == null) {
+                throw new ConnectorError('identity is required to delete a group')
+            }
+            const group = await discourseClient.getGroup(util.parseGroupIdentity(input.identity).name)
+            await discourseClient.deleteGroup(group.id)
+            res.send({})
+        })
+        .command('discourse:user:silence', async (context: Context, input: UserSilenceCommandInput, res: Response<StdAccountReadOutput>) => {
+            logger.debug(input, 'user silence input object')
+            if (input.identity == null || !input.reason) {
+                throw new ConnectorError('identity and reason are required to silence a user')
+            }
+            await discourseClient.silenceUserFor(await discourseClient.getUser(input.identity), input.reason, input.durationDays, input.message)
+            res.send(await toAccount(await discourseClient.getUser(input.identity)))
+        })
+        .command('discourse:user:unsilence', async (context: Context, input: UserSilenceCommandInput, res: Response<StdAccountReadOutput>) => {
+            logger.debug(input, 'user unsilence input object')
+            if (input.identity == null) {
+                throw new ConnectorError('identity is required to unsilence a user')
+            }
+            await discourseClient.unsilenceUser(input.identity)
+            res.send(await toAccount(await discourseClient.getUser(input.identity)))
         })
 }
@@ -0,0 +1,9 @@
+/**
+ * The response received when reading the about page of the site
+ */
+export class AboutResponse {
+    about?: {
+        title?: string
+        version?: string
+    }
+}
@@ -0,0 +1,11 @@
+/**
+ * Aggregation State is the connector state saved at the end of an account aggregation.
+ * It is used by the next aggregation to only send the accounts that changed.
+ */
+export class AggregationState {
+    static readonly VERSION = 1
+
+    version = AggregationState.VERSION
+    lastAggregation = ''
+    memberIds: number[] = []
+}
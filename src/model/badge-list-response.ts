@@ -0,0 +1,10 @@
+import { Badge } from "./badge"
+
+/**
+ * Badge List Response is how a list of badges is represented
+ * in the response of the Discourse API, omitting the properties
+ * we don't need.
+ */
+export class BadgeListResponse {
+    badges?: Badge[]
+}
@@ -0,0 +1,10 @@
+import { Badge } from "./badge"
+
+/**
+ * Badge Response is how a single badge is represented
+ * in the response of the Discourse API, omitting the properties
+ * we don't need.
+ */
+export class BadgeResponse {
+    badge?: Badge
+}
@@ -0,0 +1,14 @@
+/**
+ * Badge is Discourse's representation of a badge, omitting the properties we don't need.
+ */
+export class Badge {
+    id = -1
+    name = ''
+    description?: string
+    badge_type_id?: number
+    grant_count?: number
+    enabled?: boolean
+    system?: boolean
+    allow_title?: boolean
+    multiple_grant?: boolean
+}
@@ -0,0 +1,9 @@
+/**
+ * Category Group Permission is Discourse's representation of the permission
+ * a group has on a category.  The permission type is 1 (full), 2 (create post)
+ * or 3 (readonly).
+ */
+export class CategoryGroupPermission {
+    permission_type = 3
+    group_name = ''
+}
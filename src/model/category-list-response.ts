@@ -0,0 +1,12 @@
+import { Category } from "./category"
+
+/**
+ * Category List Response is how a list of categories is represented
+ * in the response of the Discourse API, omitting the properties
+ * we don't need.
+ */
+export class CategoryListResponse {
+    category_list?: {
+        categories?: Category[]
+    }
+}
@@ -0,0 +1,10 @@
+import { Category } from "./category"
+
+/**
+ * Category Response is how a single category is represented
+ * in the response of the Discourse API, omitting the properties
+ * we don't need.
+ */
+export class CategoryResponse {
+    category?: Category
+}
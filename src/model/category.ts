@@ -0,0 +1,15 @@
+import { CategoryGroupPermission } from "./category-group-permission"
+
+/**
+ * Category is Discourse's representation of a category, omitting the properties we don't need.
+ */
+export class Category {
+    id = -1
+    name = ''
+    slug?: string
+    description_text?: string
+    read_restricted?: boolean
+    parent_category_id?: number
+    subcategory_list?: Category[]
+    group_permissions?: CategoryGroupPermission[]
+}
@@ -0,0 +1,8 @@
+/**
+ * The response received when checking if a username is available
+ */
+export class CheckUsernameResponse {
+    available?: boolean
+    suggestion?: string
+    errors?: string[]
+}
@@ -1,3 +1,8 @@
+/**
+ * The ways accounts can be deleted: hard delete, delete with posts, anonymize or deactivate.
+ */
+export type DeleteStrategy = 'delete' | 'deleteWithPosts' | 'anonymize' | 'deactivate'
+
 /**
  * Required configuration parameters.
  */
@@ -6,5 +11,42 @@
     apiUsername?: string 
     baseUrl?: string
     primaryGroup?: string
+    additionalGroups?: string[]
+    aggregationScope?: 'groups' | 'active' | 'all'
+    excludeBots?: boolean
+    excludeSystemUser?: boolean
+    excludeUsernamePattern?: string
     employeeIdFieldId?: string
+    userFieldMappings?: string[]
+    lockTrustLevel?: boolean
+    ssoProvisioning?: boolean
+    createPolicy?: 'fail' | 'adopt' | 'claimStaged'
+    usernameNormalization?: boolean
+    usernamePatterns?: string[]
+    disableStrategy?: 'suspend' | 'deactivate' | 'silence'
+    disableDurationDays?: number
+    disableReason?: string
+    disableNotifyUser?: boolean
+    disableMessage?: string
+    unlockSendPasswordReset?: boolean
+    deleteStrategy?: DeleteStrategy
+    deleteFallback?: DeleteStrategy | 'fail'
+    deleteBlockEmail?: boolean
+    deleteBlockIp?: boolean
+    deleteBlockUrls?: boolean
+    ssoSecret?: string
+    deltaAggregation?: boolean
+    deltaStateMaxAgeHours?: number
+    pageSize?: number
+    maxConcurrency?: number
+    rateLimitPerMinute?: number
+    rateLimitMaxRetries?: number
+    requestTimeoutSeconds?: number
+    proxyUrl?: string
+    caCertificates?: string
+    clientCertificate?: string
+    clientKey?: string
+    clientKeyPassphrase?: string
+    bulkEmailLookup?: boolean
+    mustApproveUsers?: boolean
  }
\ No newline at end of file
@@ -0,0 +1,9 @@
+import { User } from "./user"
+
+/**
+ * Directory Item is Discourse's representation of a user in the users directory, omitting the properties we don't need.
+ */
+export class DirectoryItem {
+    id = -1
+    user?: User
+}
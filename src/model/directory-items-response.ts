@@ -0,0 +1,8 @@
+import { DirectoryItem } from "./directory-item"
+
+/**
+ * The response received when searching the users directory
+ */
+export class DirectoryItemsResponse {
+    directory_items?: DirectoryItem[]
+}
@@ -0,0 +1,10 @@
+import { Attributes } from "@sailpoint/connector-sdk"
+
+/**
+ * Input of the group create, update and delete commands.  The attributes use the names of the
+ * group entitlement attributes (ex. fullName, visibilityLevel, owners).
+ */
+export class GroupCommandInput {
+    identity?: string
+    attributes?: Attributes
+}
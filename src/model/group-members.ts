@@ -5,6 +5,7 @@ import { User } from "./user"
  */
  export class GroupMembers {
     members?: User[]
+    owners?: User[]
     meta?: {
        total: number
        limit: number
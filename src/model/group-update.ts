@@ -0,0 +1,15 @@
+/**
+ * The group fields that can be set when creating or updating a group
+ */
+export class GroupUpdate {
+    name?: string
+    full_name?: string
+    bio_raw?: string
+    visibility_level?: number
+    members_visibility_level?: number
+    mentionable_level?: number
+    messageable_level?: number
+    public_admission?: boolean
+    allow_membership_requests?: boolean
+    owner_usernames?: string
+}
@@ -0,0 +1,8 @@
+/**
+ * Group User is Discourse's representation of a user's membership in a group, omitting the properties we don't need.
+ */
+export class GroupUser {
+    group_id = -1
+    user_id = -1
+    owner?: boolean
+}
@@ -4,4 +4,14 @@
  export class Group {
     id = -1
     name = ''
+    full_name?: string
+    bio_raw?: string
+    automatic?: boolean
+    user_count?: number
+    visibility_level?: number
+    members_visibility_level?: number
+    mentionable_level?: number
+    messageable_level?: number
+    public_admission?: boolean
+    allow_membership_requests?: boolean
  }
\ No newline at end of file
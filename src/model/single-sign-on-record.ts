@@ -0,0 +1,10 @@
+/**
+ * Single Sign On Record is Discourse's representation of the DiscourseConnect (SSO) record
+ * of a user, omitting the properties we don't need.
+ */
+export class SingleSignOnRecord {
+    external_id?: string
+    external_username?: string
+    external_email?: string
+    external_name?: string
+}
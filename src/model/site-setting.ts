@@ -0,0 +1,7 @@
+/**
+ * A Discourse site setting, as listed by the admin site settings API.
+ */
+export class SiteSetting {
+    setting = ''
+    value?: string | number | boolean | null
+}
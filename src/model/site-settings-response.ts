@@ -0,0 +1,8 @@
+import { SiteSetting } from "./site-setting"
+
+/**
+ * The response received when listing the site settings
+ */
+export class SiteSettingsResponse {
+    site_settings?: SiteSetting[]
+}
@@ -0,0 +1,11 @@
+import { User } from "./user"
+
+/**
+ * Staff Action Log is Discourse's record of an action of a staff user, omitting the properties we don't need.
+ */
+export class StaffActionLog {
+    id = -1
+    action_name?: string
+    created_at?: string
+    target_user?: User | null
+}
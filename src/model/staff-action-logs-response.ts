@@ -0,0 +1,8 @@
+import { StaffActionLog } from "./staff-action-log"
+
+/**
+ * The response received when listing the staff action logs
+ */
+export class StaffActionLogsResponse {
+    staff_action_logs?: StaffActionLog[]
+}
@@ -0,0 +1,9 @@
+/**
+ * User Badge is Discourse's representation of a badge granted to a user, omitting the properties we don't need.
+ */
+export class UserBadge {
+    id = -1
+    badge_id = -1
+    user_id = -1
+    granted_at?: string
+}
@@ -0,0 +1,13 @@
+import { Badge } from "./badge"
+import { User } from "./user"
+import { UserBadge } from "./user-badge"
+
+/**
+ * User Badges Response is how badge grants are represented in the response of
+ * /user_badges.json and /user-badges/{username}.json, omitting the properties we don't need.
+ */
+export class UserBadgesResponse {
+    user_badges?: UserBadge[]
+    badges?: Badge[]
+    users?: User[]
+}
@@ -0,0 +1,11 @@
+/**
+ * The response received after creating a user.  Discourse answers 200 with success false and the
+ * errors of each field when the user can't be created.
+ */
+export class UserCreateResponse {
+    success?: boolean
+    active?: boolean
+    message?: string
+    user_id?: number
+    errors?: {[field: string]: string[]}
+}
@@ -0,0 +1,14 @@
+import { Badge } from "./badge"
+import { Group } from "./group"
+
+/**
+ * User Directory holds the user details retrieved in bulk before an aggregation,
+ * so that hydrating each user doesn't need extra requests.
+ */
+export class UserDirectory {
+    emails = new Map<number, string>()
+    // Undefined when the group owners were not retrieved, in which case they are looked up per user.
+    ownedGroups?: Map<number, Group[]>
+    // Undefined when the badge grants were not retrieved, in which case they are looked up per user.
+    badges?: Map<number, Badge[]>
+}
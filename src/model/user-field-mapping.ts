@@ -0,0 +1,13 @@
+/**
+ * The types of Discourse custom user fields.
+ */
+export type UserFieldType = 'text' | 'dropdown' | 'confirm' | 'multiselect'
+
+/**
+ * User Field Mapping maps an account attribute to a Discourse custom user field.
+ */
+export class UserFieldMapping {
+    attribute = ''
+    fieldId = ''
+    type: UserFieldType = 'text'
+}
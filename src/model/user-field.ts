@@ -0,0 +1,14 @@
+/**
+ * User Field is Discourse's representation of a custom user field, omitting the properties we don't need.
+ */
+export class UserField {
+    id = -1
+    name = ''
+    description?: string
+    field_type?: string
+    editable?: boolean
+    required?: boolean
+    // Replaces required in recent Discourse versions: optional, on_signup or for_all_users.
+    requirement?: string
+    options?: string[]
+}
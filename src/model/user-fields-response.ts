@@ -0,0 +1,10 @@
+import { UserField } from "./user-field"
+
+/**
+ * User Fields Response is how the list of custom user fields is represented
+ * in the response of the Discourse API, omitting the properties
+ * we don't need.
+ */
+export class UserFieldsResponse {
+    user_fields?: UserField[]
+}
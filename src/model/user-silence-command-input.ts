@@ -0,0 +1,9 @@
+/**
+ * Input of the user silence and unsilence commands.  The reason, duration and message are only used to silence.
+ */
+export class UserSilenceCommandInput {
+    identity?: string
+    reason?: string
+    durationDays?: number
+    message?: string
+}
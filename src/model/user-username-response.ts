@@ -1,9 +1,10 @@
 import { User } from "./user"
+import { UserBadge } from "./user-badge"
 
 /**
  * User is a complete definition of a user, including entitlements
  */
 export class UserUsernameResponse {
-	user_badges?: []
+	user_badges?: UserBadge[]
     user?: User
 }
\ No newline at end of file
@@ -1,4 +1,7 @@
+import { Badge } from "./badge"
 import { Group } from "./group"
+import { GroupUser } from "./group-user"
+import { SingleSignOnRecord } from "./single-sign-on-record"
 
 /**
  * User is a complete definition of a user, including entitlements
@@ -11,11 +14,35 @@ export class User {
     admin?: boolean
     moderator?: boolean
     trust_level?: number
+    manual_locked_trust_level?: number
     title?: string
     password?: string
     groups?: Group[]
-	user_fields?: {[key: string]: string};
+    group_users?: GroupUser[]
+	// The groups the user owns.  Not part of Discourse's user representation, resolved by the connector.
+	owned_groups?: Group[]
+	// The badges granted to the user.  Not part of Discourse's user representation, resolved by the connector.
+	badges?: Badge[]
+	single_sign_on_record?: SingleSignOnRecord | null
+	// The DiscourseConnect external id, read from the single sign on record by the connector.
+	external_id?: string
+	// Multiselect user fields hold a list of values.
+	user_fields?: {[key: string]: string | string[] | null};
 	name?: string
+	approved?: boolean
+	staged?: boolean
+	suspended_at?: string | null
+	suspended_till?: string | null
+	suspend_reason?: string | null
+	silenced_till?: string | null
+	silence_reason?: string | null
+	post_count?: number
+	can_be_deleted?: boolean
+	can_delete_all_posts?: boolean
+	can_be_anonymized?: boolean
+	created_at?: string
+	updated_at?: string
+	last_seen_at?: string
 
     /**
 	 * Static method to compare two users
@@ -26,19 +53,20 @@ export class User {
 	static equals(a: User, b: User): boolean {
 		if (a == null || b == null || a.id != b.id || a.username != b.username || a.email != b.email
 			|| a.active != b.active || a.admin != b.admin || a.moderator != b.moderator || a.trust_level != b.trust_level
-			|| a.title != b.title || a.name != b.name) {
+			|| a.manual_locked_trust_level != b.manual_locked_trust_level || a.title != b.title || a.name != b.name
+			|| a.external_id != b.external_id) {
 
 			return false
 		}
 
 		for (const key in a.user_fields) {
-			if (b.user_fields !== undefined && a.user_fields[key] != b.user_fields[key]) {
+			if (b.user_fields !== undefined && String(a.user_fields[key] ?? '') != String(b.user_fields[key] ?? '')) {
 				return false
 			}
 		}
 
 		for (const key in b.user_fields) {
-			if (a.user_fields !== undefined && b.user_fields[key] != a.user_fields[key]) {
+			if (a.user_fields !== undefined && String(b.user_fields[key] ?? '') != String(a.user_fields[key] ?? '')) {
 				return false
 			}
 		}
@@ -58,6 +86,16 @@ export class User {
 			}
 		} 
 
+		if (!User.sameIds(a.owned_groups, b.owned_groups) || !User.sameIds(a.badges, b.badges)) {
+			return false
+		}
+
 		return true
 	}
+
+	private static sameIds(a?: { id: number }[], b?: { id: number }[]): boolean {
+		const aIds = (a ?? []).map(item => item.id).sort((x, y) => x - y)
+		const bIds = (b ?? []).map(item => item.id).sort((x, y) => x - y)
+		return aIds.join(',') == bIds.join(',')
+	}
 }
\ No newline at end of file
@@ -0,0 +1,8 @@
+/**
+ * The username rules of a Discourse site, read from its site settings.
+ */
+export class UsernameSettings {
+    minLength = 3
+    maxLength = 20
+    unicode = false
+}
@@ -0,0 +1,83 @@
+import { AxiosError } from "axios"
+import { ConnectorError } from "@sailpoint/connector-sdk"
+
+/**
+ * RateLimiter throttles requests with a token bucket refilled at the configured rate, and tells how long
+ * to wait before retrying a rate limited request.  When Discourse asks to wait, every request waits.
+ */
+export class RateLimiter {
+    private tokens: number
+    private refilledAt = Date.now()
+    private pausedUntil = 0
+
+    /**
+     * @param requestsPerMinute the number of requests allowed per minute, or 0 to not throttle requests.
+     */
+    constructor(private readonly requestsPerMinute: number) {
+        if (!(requestsPerMinute >= 0)) {
+            throw new ConnectorError(`Invalid rate limit: ${requestsPerMinute}`)
+        }
+        this.tokens = requestsPerMinute
+    }
+
+    /**
+     * Waits until a request is allowed.
+     */
+    async acquire(): Promise<void> {
+        for (;;) {
+            const now = Date.now()
+            if (now < this.pausedUntil) {
+                await this.sleep(this.pausedUntil - now)
+                continue
+            }
+            if (this.requestsPerMinute == 0) {
+                return
+            }
+
+            this.tokens = Math.min(this.requestsPerMinute, this.tokens + (now - this.refilledAt) * this.requestsPerMinute / 60000)
+            this.refilledAt = now
+            if (this.tokens >= 1) {
+                this.tokens--
+                return
+            }
+            await this.sleep(Math.ceil((1 - this.tokens) * 60000 / this.requestsPerMinute))
+        }
+    }
+
+    /**
+     * The time Discourse asks to wait before retrying a rate limited request, from the Retry-After header
+     * or the wait_seconds of the error body.  Requests are paused for that time.
+     * @param error the error of the rate limited request.
+     * @returns the time to wait in milliseconds, or undefined when Discourse doesn't tell.
+     */
+    retryDelay(error: AxiosError): number | undefined {
+        const delay = this.parseRetryAfter(error.response?.headers?.['retry-after'])
+            ?? this.parseWaitSeconds(error.response?.data?.extras?.wait_seconds)
+        if (delay !== undefined) {
+            this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay)
+        }
+        return delay
+    }
+
+    // Retry-After is either a number of seconds or an HTTP date.
+    private parseRetryAfter(retryAfter?: string): number | undefined {
+        if (retryAfter == null || retryAfter === '') {
+            return undefined
+        }
+        const seconds = Number(retryAfter)
+        if (!isNaN(seconds)) {
+            return Math.max(0, seconds * 1000)
+        }
+        const date = Date.parse(retryAfter)
+        return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+    }
+
+    private parseWaitSeconds(waitSeconds?: unknown): number | undefined {
+        const seconds = Number(waitSeconds)
+        return waitSeconds == null || isNaN(seconds) ? undefined : Math.max(0, seconds * 1000)
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms))
+    }
+}
@@ -0,0 +1,74 @@
+import { User } from "../model/user"
+import { UsernameSettings } from "../model/username-settings"
+
+// Discourse rejects usernames ending like a file name, ex. jdoe.json.
+const FILE_EXTENSION_SUFFIX = /\.(js|json|css|htm|html|xml|jpg|jpeg|png|gif|bmp|ico|tif|tiff|woff)$/i
+
+// Numbered patterns, ex. {username}{n}, are tried with these numbers at most.
+const MAX_USERNAME_NUMBER = 99
+
+/**
+ * UsernameGenerator produces candidate usernames for a new user from patterns like {username}, {username}{n}
+ * or {firstName}.{lastName}, normalized to the username rules of the site.
+ */
+export class UsernameGenerator {
+    constructor(private readonly settings: UsernameSettings, private readonly patterns: string[]) {
+    }
+
+    /**
+     * Normalizes a username to the rules of the site: only letters, numbers, underscores, dots and dashes
+     * (only ASCII ones unless unicode usernames are allowed), no consecutive special characters, starting
+     * with a letter, a number or an underscore, ending with a letter or a number, and at most the maximum length.
+     * @param username the username to normalize.
+     * @param maxLength the maximum length, defaults to the one of the site.
+     * @returns the normalized username, which may be shorter than the minimum length.
+     */
+    normalize(username: string, maxLength = this.settings.maxLength): string {
+        const normalized = this.settings.unicode
+            ? username.normalize('NFC').replace(/[^\p{L}\p{M}\p{N}_.-]/gu, '_')
+            // Remove the accents so that ex. José becomes Jose rather than Jos_.
+            : username.normalize('NFD').replace(/\p{M}/gu, '').replace(/[^A-Za-z0-9_.-]/g, '_')
+
+        return normalized
+            .replace(/([_.-])[_.-]+/g, '$1')
+            .replace(/^[.-]+/, '')
+            .slice(0, Math.max(0, maxLength))
+            .replace(/[_.-]+$/, '')
+            .replace(FILE_EXTENSION_SUFFIX, '_$1')
+    }
+
+    /**
+     * Generates the candidate usernames of a user.  The patterns support the {username}, {firstName} and
+     * {lastName} placeholders, the names being the first and last words of the name of the user, and a {n}
+     * suffix that is replaced by 1, 2, 3 and so on.  Every pattern is tried once in order, numbered ones with 1,
+     * before the numbered patterns are tried with the next numbers, so that they don't hide the later patterns.
+     * @param user the user to create.
+     */
+    *candidates(user: User): Generator<string> {
+        const names = (user.name ?? '').trim().split(/\s+/).filter(name => name !== '')
+        const values: { [placeholder: string]: string } = {
+            username: user.username ?? '',
+            firstName: names[0] ?? '',
+            lastName: names.length > 1 ? names[names.length - 1] : ''
+        }
+        const render = (pattern: string) => pattern.replace(/\{(\w+)\}/g, (placeholder, key) => values[key] ?? placeholder)
+
+        const generated = new Set<string>()
+        for (let n = 1; n <= MAX_USERNAME_NUMBER; n++) {
+            for (const pattern of this.patterns) {
+                const numbered = pattern.endsWith('{n}')
+                if (!numbered && n > 1) {
+                    continue
+                }
+                const base = render(numbered ? pattern.slice(0, -'{n}'.length) : pattern)
+                const suffix = numbered ? String(n) : ''
+                const normalized = this.normalize(base, this.settings.maxLength - suffix.length)
+                const username = normalized + suffix
+                if (normalized !== '' && username.length >= this.settings.minLength && !generated.has(username.toLowerCase())) {
+                    generated.add(username.toLowerCase())
+                    yield username
+                }
+            }
+        }
+    }
+}
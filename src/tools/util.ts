@@ -1,6 +1,89 @@
-import { AttributeChange, ConnectorError, StdAccountCreateInput, StdAccountCreateOutput, StdEntitlementListOutput } from "@sailpoint/connector-sdk"
+import { AccountSchema, AttributeChange, Attributes, CommandState, ConnectorError, SchemaAttribute, StdAccountCreateInput, StdAccountCreateOutput, StdAccountListOutput, StdEntitlementListOutput } from "@sailpoint/connector-sdk"
+import { AggregationState } from "../model/aggregation-state"
+import { Badge } from "../model/badge"
+import { Category } from "../model/category"
 import { Group } from "../model/group"
+import { GroupUpdate } from "../model/group-update"
 import { User } from "../model/user"
+import { UserField } from "../model/user-field"
+import { UserFieldMapping, UserFieldType } from "../model/user-field-mapping"
+import { InvalidConfigurationError } from "../errors/invalid-configuration-error"
+
+// Account attributes holding multiple entitlements
+const MULTI_VALUED_ATTRIBUTES = ['groups', 'ownedGroups', 'badges', 'roles']
+
+// Account attributes holding a single entitlement, adding one replaces the current one
+const SINGLE_VALUED_ENTITLEMENTS = ['trustLevel']
+
+// Discourse's group visibility levels
+const VISIBILITY_LEVELS: { [level: number]: string } = {
+    0: 'public',
+    1: 'logged_on_users',
+    2: 'members',
+    3: 'staff',
+    4: 'owners'
+}
+
+// Discourse's group mentionable and messageable levels
+const ALIAS_LEVELS: { [level: number]: string } = {
+    0: 'nobody',
+    1: 'only_admins',
+    2: 'mods_and_admins',
+    3: 'members_mods_and_admins',
+    4: 'owners_mods_and_admins',
+    99: 'everyone'
+}
+
+// Discourse's badge types, indexed by badge type id
+const BADGE_TYPES: { [type: number]: string } = {
+    1: 'Gold',
+    2: 'Silver',
+    3: 'Bronze'
+}
+
+// Discourse's category permission types
+const CATEGORY_PERMISSION_TYPES: { [type: number]: string } = {
+    1: 'full',
+    2: 'create_post',
+    3: 'readonly'
+}
+
+// Discourse's trust level names, indexed by trust level
+export const TRUST_LEVEL_NAMES = ['new user', 'basic user', 'member', 'regular', 'leader']
+
+// Discourse's staff roles and their names
+export const ROLE_NAMES: { [role: string]: string } = {
+    admin: 'Administrator',
+    moderator: 'Moderator'
+}
+
+// Discourse's custom user field types
+const USER_FIELD_TYPES: UserFieldType[] = ['text', 'dropdown', 'confirm', 'multiselect']
+
+// The built-in account attributes, keep in sync with the accountSchema of connector-spec.json
+const ACCOUNT_SCHEMA_ATTRIBUTES: SchemaAttribute[] = [
+    { name: 'username', type: 'string', description: 'The username of the account' },
+    { name: 'employeeId', type: 'string', description: 'The internal employee ID of the account used for correlation with internal hr systems' },
+    { name: 'id', type: 'string', description: 'The unique identifier of the account' },
+    { name: 'externalId', type: 'string', description: 'The DiscourseConnect (SSO) external id of the account' },
+    { name: 'email', type: 'string', description: 'Email address of the account' },
+    { name: 'name', type: 'string', description: 'display name of the account' },
+    { name: 'title', type: 'string', description: 'The title of the user account' },
+    { name: 'groups', type: 'string', entitlement: true, managed: true, multi: true, description: 'The groups the user belongs to' },
+    { name: 'ownedGroups', type: 'string', entitlement: true, managed: true, multi: true, schemaObjectType: 'group-owner', description: 'The groups the user owns' },
+    { name: 'badges', type: 'string', entitlement: true, managed: true, multi: true, schemaObjectType: 'badge', description: 'The badges granted to the user' },
+    { name: 'roles', type: 'string', entitlement: true, managed: true, multi: true, schemaObjectType: 'role', description: 'The staff roles of the user (admin, moderator)' },
+    { name: 'trustLevel', type: 'string', entitlement: true, managed: true, multi: false, schemaObjectType: 'trustLevel', description: 'The trust level of the user (TL0 to TL4)' },
+    { name: 'trustLevelLocked', type: 'boolean', description: 'True if the trust level is locked and not changed by Discourse\'s automatic promotion' },
+    { name: 'status', type: 'string', description: 'The status of the user: staged, suspended, deactivated, silenced, unapproved or active' },
+    { name: 'active', type: 'boolean', description: 'True if the user is activated' },
+    { name: 'approved', type: 'boolean', description: 'True if the user is approved' },
+    { name: 'staged', type: 'boolean', description: 'True if the user is staged, created by Discourse from an incoming email' },
+    { name: 'suspendedTill', type: 'string', description: 'The end of the suspension of the user' },
+    { name: 'suspendReason', type: 'string', description: 'The reason of the suspension of the user' },
+    { name: 'silencedTill', type: 'string', description: 'The end of the silence of the user' },
+    { name: 'silenceReason', type: 'string', description: 'The reason of the silence of the user' }
+]
 
 export class Util {
 
@@ -8,38 +91,16 @@ export class Util {
      * converts IDN account input to user
      *
      * @param {StdAccountCreateInput} input Account Create Input from IDN
+     * @param {UserFieldMapping[]} userFields the account attributes mapped to custom user fields
      * @returns {User} User object
      */
-    public accountToUser(input: StdAccountCreateInput, employeeIdField: string | undefined): User {
+    public accountToUser(input: StdAccountCreateInput, employeeIdField: string | undefined, userFields: UserFieldMapping[] = []): User {
         if (input.attributes.username == null) {
             throw new ConnectorError(`'username' is required to create user`)
         }
     
-        const userGroups: Group[] = []
-        if (input.attributes['groups'] != null) {
-            if (!Array.isArray(input.attributes['groups'])) {
-                input.attributes['groups'] = [input.attributes['groups']]
-            }
-    
-            for (const group of input.attributes['groups']) {
-                if (typeof group !== 'string') {
-                    throw new ConnectorError('Invalid role type: ' + group)
-                }
-    
-                const groupParts = group.split(':')
-                if (groupParts.length != 2) {
-                    throw new ConnectorError('Invalid role format: ' + group)
-                }
-    
-                const userGroup = new Group()
-                userGroup.id = Number(groupParts[0])
-                if (isNaN(userGroup.id)) {
-                    throw new ConnectorError('Invalid role format: ' + group)
-                }
-                userGroup.name = groupParts[1]
-                userGroups.push(userGroup)
-            }
-        }
+        const userGroups = this.parseEntitlements(input, 'groups', 'group')
+        const ownedGroups = this.parseEntitlements(input, 'ownedGroups', 'group-owner')
     
         const user = new User()
         user.email = input.attributes.email
@@ -49,57 +110,571 @@ export class Util {
         user.title = input.attributes.title
         user.password = input.attributes.password
         user.groups = userGroups
+        user.owned_groups = ownedGroups
+        user.badges = this.parseEntitlements(input, 'badges', 'badge')
+        user.trust_level = input.attributes.trustLevel != null ? this.parseTrustLevel(input.attributes.trustLevel) : undefined
+        const roles = this.parseRoles(input)
+        user.admin = roles != null ? roles.includes('admin') : undefined
+        user.moderator = roles != null ? roles.includes('moderator') : undefined
         user.user_fields = {}
         user.name = input.attributes.name
+        user.external_id = input.attributes.externalId != null ? String(input.attributes.externalId) : undefined
         
         if (employeeIdField !== undefined) {
             user.user_fields[employeeIdField] = input.attributes.employeeId
         }
+        for (const userField of userFields) {
+            // Attributes missing from the account are left untouched.
+            if (input.attributes[userField.attribute] !== undefined) {
+                user.user_fields[userField.fieldId] = this.toUserFieldValue(input.attributes[userField.attribute], userField.type)
+            }
+        }
     
         return user
     }
     
+    /**
+     * Parses entitlements in the id:name format (ex. 1:admins) of a multi-valued attribute.
+     * Names may contain colons, so only the first one separates the id from the name.
+     */
+    private parseEntitlements(input: StdAccountCreateInput, attribute: string, type: string): Group[] {
+        const userGroups: Group[] = []
+        if (input.attributes[attribute] != null) {
+            if (!Array.isArray(input.attributes[attribute])) {
+                input.attributes[attribute] = [input.attributes[attribute]]
+            }
+    
+            for (const group of input.attributes[attribute]) {
+                if (typeof group !== 'string') {
+                    throw new ConnectorError(`Invalid ${type} type: ` + group)
+                }
+    
+                const separator = group.indexOf(':')
+                if (separator < 0) {
+                    throw new ConnectorError(`Invalid ${type} format: ` + group)
+                }
+    
+                const userGroup = new Group()
+                userGroup.id = Number(group.substring(0, separator))
+                if (separator == 0 || isNaN(userGroup.id)) {
+                    throw new ConnectorError(`Invalid ${type} format: ` + group)
+                }
+                userGroup.name = group.substring(separator + 1)
+                userGroups.push(userGroup)
+            }
+        }
+        return userGroups
+    }
+
+    /**
+     * Parses the staff roles (ex. admin) of an account.  Undefined is returned when the account has no roles attribute.
+     */
+    private parseRoles(input: StdAccountCreateInput): string[] | undefined {
+        if (input.attributes.roles == null) {
+            return undefined
+        }
+        const roles: unknown[] = Array.isArray(input.attributes.roles) ? input.attributes.roles : [input.attributes.roles]
+        for (const role of roles) {
+            if (typeof role !== 'string' || ROLE_NAMES[role] == null) {
+                throw new ConnectorError('Invalid role: ' + role)
+            }
+        }
+        return <string[]>roles
+    }
+
     /**
      * converts user object to IDN account output
      *
      * @param {User} user User object
+     * @param {UserFieldMapping[]} userFields the account attributes mapped to custom user fields
+     * @param {boolean} mustApproveUsers true if the site requires users to be approved, so that unapproved users are locked
+     * @param {boolean} silenceDisables true if the disable strategy silences users, so that silenced users are disabled instead of locked
      * @returns {StdAccountCreateOutput} IDN account create object
      */
-    public userToAccount(user: User, employeeIdField: string | undefined): StdAccountCreateOutput {
-        return {
+    public userToAccount(user: User, employeeIdField: string | undefined, userFields: UserFieldMapping[] = [], mustApproveUsers = false, silenceDisables = false): StdAccountCreateOutput {
+        const silenced = this.isInFuture(user.silenced_till)
+        const account: StdAccountCreateOutput = {
             // Convert id to string because IDN doesn't work well with number types for the account ID
             identity: user.id ? user.id.toString() : '',
             uuid: user.username ? user.username : '',
-            disabled: !user.active,
-            locked: !user.active,
+            // Suspended and deactivated users can't log in, silenced and unapproved users are only restricted.
+            disabled: !user.active || this.isInFuture(user.suspended_till) || (silenceDisables && silenced),
+            locked: (!silenceDisables && silenced) || (mustApproveUsers && user.approved === false),
             attributes: {
                 username: user.username ? user.username : '',
                 id: user.id ? user.id.toString() : '',
                 email: user.email ? user.email : '',
                 title: user.title ? user.title : '',
                 employeeId: employeeIdField !== undefined && user.user_fields !== undefined ? user.user_fields[employeeIdField] : null,
+                externalId: user.external_id ? user.external_id : null,
                 groups: user.groups ? user.groups.map(group => { return `${group.id}:${group.name}` }) : null,
+                ownedGroups: user.owned_groups ? user.owned_groups.map(group => { return `${group.id}:${group.name}` }) : null,
+                badges: user.badges ? user.badges.map(badge => { return `${badge.id}:${badge.name}` }) : null,
+                roles: [...(user.admin ? ['admin'] : []), ...(user.moderator ? ['moderator'] : [])],
+                trustLevel: user.trust_level != null ? `TL${user.trust_level}` : null,
+                trustLevelLocked: user.manual_locked_trust_level != null,
+                status: this.userStatus(user, mustApproveUsers),
+                active: user.active === true,
+                approved: user.approved === true,
+                staged: user.staged === true,
+                suspendedTill: user.suspended_till ? user.suspended_till : null,
+                suspendReason: user.suspend_reason ? user.suspend_reason : null,
+                silencedTill: user.silenced_till ? user.silenced_till : null,
+                silenceReason: user.silence_reason ? user.silence_reason : null,
                 name: user.name ? user.name : ''
             }
         }
+
+        for (const userField of userFields) {
+            account.attributes[userField.attribute] = this.fromUserFieldValue(user.user_fields?.[userField.fieldId], userField.type)
+        }
+
+        return account
+    }
+
+    /**
+     * Determines the status of a user, the most restrictive first.
+     *
+     * @param {User} user User object
+     * @param {boolean} mustApproveUsers true if the site requires users to be approved
+     * @returns {string} staged, suspended, deactivated, silenced, unapproved or active
+     */
+    public userStatus(user: User, mustApproveUsers = false): string {
+        if (user.staged) {
+            return 'staged'
+        } else if (this.isInFuture(user.suspended_till)) {
+            return 'suspended'
+        } else if (!user.active) {
+            return 'deactivated'
+        } else if (this.isInFuture(user.silenced_till)) {
+            return 'silenced'
+        } else if (mustApproveUsers && user.approved === false) {
+            return 'unapproved'
+        }
+        return 'active'
+    }
+
+    private isInFuture(date?: string | null): boolean {
+        return date != null && new Date(date).getTime() > Date.now()
+    }
+
+    /**
+     * Parses the configured mappings of account attributes to custom user fields.
+     * Each mapping has the attribute:fieldId:type format (ex. costCenter:4:dropdown), the type defaulting to text.
+     *
+     * @param {string[]} mappings the configured mappings
+     * @returns {UserFieldMapping[]} the parsed mappings
+     */
+    public parseUserFieldMappings(mappings: string[] = []): UserFieldMapping[] {
+        return mappings.map(mapping => {
+            const parts = mapping.split(':').map(part => part.trim())
+            const type = <UserFieldType>(parts[2] ?? 'text').toLowerCase()
+            if (parts.length < 2 || parts.length > 3 || parts[0] === '' || parts[1] === '' || !USER_FIELD_TYPES.includes(type)) {
+                throw new InvalidConfigurationError(`Invalid user field mapping: ${mapping}. Expected attribute:fieldId:type, the type being one of ${USER_FIELD_TYPES.join(', ')}`)
+            }
+            return { attribute: parts[0], fieldId: parts[1], type: type }
+        })
+    }
+
+    /**
+     * Maps every custom user field of the site to an account attribute, so that the discovered schema and
+     * the aggregated accounts use the same names.  A user field is named after its configured mapping,
+     * or after the field name when it isn't mapped, falling back to userFieldN when that name is taken.
+     * Configured mappings of fields missing from the site are kept.
+     *
+     * @param {UserField[]} fields the custom user fields of the site
+     * @param {string} employeeIdField the id of the user field holding the employee ID, already part of the built-in attributes
+     * @param {UserFieldMapping[]} userFields the account attributes mapped to custom user fields
+     * @returns {UserFieldMapping[]} the mappings of every user field
+     */
+    public siteUserFieldMappings(fields: UserField[], employeeIdField: string | undefined, userFields: UserFieldMapping[] = []): UserFieldMapping[] {
+        const names = [...ACCOUNT_SCHEMA_ATTRIBUTES.map(attribute => attribute.name), ...userFields.map(userField => userField.attribute)]
+        const mappings: UserFieldMapping[] = []
+        for (const field of fields) {
+            if (String(field.id) === employeeIdField) {
+                continue
+            }
+
+            const mapping = userFields.find(userField => userField.fieldId === String(field.id))
+            if (mapping) {
+                mappings.push(mapping)
+                continue
+            }
+
+            let name = this.userFieldAttributeName(field.name)
+            if (name === '' || names.includes(name)) {
+                name = `userField${field.id}`
+            }
+            names.push(name)
+            const type = USER_FIELD_TYPES.find(type => type === field.field_type) ?? 'text'
+            mappings.push({ attribute: name, fieldId: String(field.id), type: type })
+        }
+
+        return mappings.concat(userFields.filter(userField => !mappings.includes(userField)))
+    }
+
+    /**
+     * Builds the account schema from the built-in attributes and the custom user fields of the site,
+     * named like siteUserFieldMappings names them.
+     *
+     * @param {UserField[]} fields the custom user fields of the site
+     * @param {string} employeeIdField the id of the user field holding the employee ID, already part of the built-in attributes
+     * @param {UserFieldMapping[]} userFields the account attributes mapped to custom user fields
+     * @returns {AccountSchema} the account schema
+     */
+    public accountSchema(fields: UserField[], employeeIdField: string | undefined, userFields: UserFieldMapping[] = []): AccountSchema {
+        const attributes = [...ACCOUNT_SCHEMA_ATTRIBUTES]
+        const mappings = this.siteUserFieldMappings(fields, employeeIdField, userFields)
+        for (const field of fields) {
+            const mapping = mappings.find(userField => userField.fieldId === String(field.id))
+            if (mapping == null || attributes.some(attribute => attribute.name === mapping.attribute)) {
+                continue
+            }
+
+            const description = [field.description ? field.description : field.name, `(user field ${field.id}, ${field.field_type ?? 'text'}${field.editable === false ? ', not editable by the user' : ''})`]
+            attributes.push({
+                name: mapping.attribute,
+                type: mapping.type == 'confirm' ? 'boolean' : 'string',
+                multi: mapping.type == 'multiselect',
+                required: field.required === true || field.requirement == 'for_all_users',
+                description: description.join(' ')
+            })
+        }
+
+        return {
+            displayAttribute: 'username',
+            identityAttribute: 'id',
+            groupAttribute: 'groups',
+            attributes: attributes
+        }
+    }
+
+    /**
+     * Converts a user field name to a camel case attribute name (ex. Cost Center to costCenter).
+     */
+    private userFieldAttributeName(fieldName: string): string {
+        const words = fieldName.split(/[^A-Za-z0-9]+/).filter(word => word !== '')
+        const name = words.map((word, index) => index == 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join('')
+        return /^[0-9]/.test(name) ? '' : name
+    }
+
+    /**
+     * Coerces an account attribute value to the value of a custom user field.
+     * Confirm fields hold 'true' or 'false', or null when unset, and multiselect fields a list of values.
+     */
+    private toUserFieldValue(value: unknown, type: UserFieldType): string | string[] | null {
+        if (type == 'confirm') {
+            if (value == null || value === '') {
+                return null
+            }
+            return value === true || String(value).toLowerCase() == 'true' ? 'true' : 'false'
+        }
+        if (type == 'multiselect') {
+            if (value == null) {
+                return []
+            }
+            return (Array.isArray(value) ? value : [value]).map(item => String(item))
+        }
+        return value == null ? null : String(value)
+    }
+
+    /**
+     * Coerces the value of a custom user field to an account attribute value.  Unset confirm fields stay null.
+     */
+    private fromUserFieldValue(value: string | string[] | null | undefined, type: UserFieldType): string | string[] | boolean | null {
+        if (type == 'confirm') {
+            return value == null || value === '' ? null : String(value).toLowerCase() == 'true'
+        }
+        if (type == 'multiselect') {
+            if (value == null || value === '') {
+                return []
+            }
+            return Array.isArray(value) ? value : [value]
+        }
+        return value == null || value === '' ? null : String(value)
     }
 
     /**
      * converts group object to IDN Entitlement List Output
      *
      * @param {Group} group group object
+     * @param {User[]} owners the owners of the group
+     * @param {string} type the entitlement type, either group or group-owner
+     * @param {string[]} categoryPermissions the permissions of the group on categories (ex. Security:full)
      * @returns {StdAccountCreateOutput} IDN Entitlement List Output
      */
-    public groupToEntitlement(group: Group): StdEntitlementListOutput {
+    public groupToEntitlement(group: Group, owners: User[] = [], type = 'group', categoryPermissions: string[] = []): StdEntitlementListOutput {
         return {
             identity: group.id + ':' + group.name,
             uuid: group.id + ':' + group.name,
-            type: 'group',
+            type: type,
             attributes: {
                 id: group.id + ':' + group.name,
-                name: group.name ? group.name : ''
+                name: group.name ? group.name : '',
+                fullName: group.full_name ? group.full_name : '',
+                bio: group.bio_raw ? group.bio_raw : '',
+                automatic: group.automatic === true,
+                userCount: group.user_count != null ? group.user_count : null,
+                visibilityLevel: this.levelName(VISIBILITY_LEVELS, group.visibility_level),
+                membersVisibilityLevel: this.levelName(VISIBILITY_LEVELS, group.members_visibility_level),
+                mentionableLevel: this.levelName(ALIAS_LEVELS, group.mentionable_level),
+                messageableLevel: this.levelName(ALIAS_LEVELS, group.messageable_level),
+                publicAdmission: group.public_admission === true,
+                allowMembershipRequests: group.allow_membership_requests === true,
+                // Automatic groups are managed by Discourse, so they can't be requested.
+                requestable: group.automatic !== true,
+                owners: owners.map(owner => owner.username ? owner.username : owner.id.toString()),
+                categoryPermissions: categoryPermissions
+            }
+        }
+    }
+
+    /**
+     * converts category object to IDN Entitlement List Output
+     *
+     * @param {Category} category category object, including its group permissions
+     * @returns {StdEntitlementListOutput} IDN Entitlement List Output
+     */
+    public categoryToEntitlement(category: Category): StdEntitlementListOutput {
+        return {
+            identity: category.id + ':' + category.name,
+            uuid: category.id + ':' + category.name,
+            type: 'category',
+            attributes: {
+                id: category.id + ':' + category.name,
+                name: category.name ? category.name : '',
+                slug: category.slug ? category.slug : '',
+                description: category.description_text ? category.description_text : '',
+                readRestricted: category.read_restricted === true,
+                parentCategoryId: category.parent_category_id != null ? category.parent_category_id : null,
+                permissions: (category.group_permissions ?? []).map(permission =>
+                    permission.group_name + ':' + this.levelName(CATEGORY_PERMISSION_TYPES, permission.permission_type))
+            }
+        }
+    }
+
+    /**
+     * Builds the permission matrix of groups on categories.
+     *
+     * @param {Category[]} categories the categories, including their group permissions
+     * @returns {Map<string, string[]>} the permissions of each group (ex. Security:full), keyed by group name
+     */
+    public categoryPermissionsByGroup(categories: Category[]): Map<string, string[]> {
+        const permissions = new Map<string, string[]>()
+        for (const category of categories) {
+            for (const permission of category.group_permissions ?? []) {
+                const groupPermissions = permissions.get(permission.group_name) ?? []
+                groupPermissions.push(category.name + ':' + this.levelName(CATEGORY_PERMISSION_TYPES, permission.permission_type))
+                permissions.set(permission.group_name, groupPermissions)
+            }
+        }
+        return permissions
+    }
+
+    /**
+     * converts badge object to IDN Entitlement List Output
+     *
+     * @param {Badge} badge badge object
+     * @returns {StdEntitlementListOutput} IDN Entitlement List Output
+     */
+    public badgeToEntitlement(badge: Badge): StdEntitlementListOutput {
+        return {
+            identity: badge.id + ':' + badge.name,
+            uuid: badge.id + ':' + badge.name,
+            type: 'badge',
+            attributes: {
+                id: badge.id + ':' + badge.name,
+                name: badge.name ? badge.name : '',
+                description: badge.description ? badge.description : '',
+                badgeType: badge.badge_type_id != null ? BADGE_TYPES[badge.badge_type_id] ?? badge.badge_type_id.toString() : null,
+                grantCount: badge.grant_count != null ? badge.grant_count : null,
+                enabled: badge.enabled !== false,
+                system: badge.system === true,
+                allowTitle: badge.allow_title === true,
+                multipleGrant: badge.multiple_grant === true
+            }
+        }
+    }
+
+    /**
+     * converts a trust level to IDN Entitlement List Output
+     *
+     * @param {number} level the trust level, from 0 to 4
+     * @returns {StdEntitlementListOutput} IDN Entitlement List Output
+     */
+    public trustLevelToEntitlement(level: number): StdEntitlementListOutput {
+        return {
+            identity: `TL${level}`,
+            uuid: `TL${level}`,
+            type: 'trustLevel',
+            attributes: {
+                id: `TL${level}`,
+                name: TRUST_LEVEL_NAMES[level],
+                level: level
+            }
+        }
+    }
+
+    /**
+     * converts a staff role to IDN Entitlement List Output
+     *
+     * @param {string} role the role, either admin or moderator
+     * @returns {StdEntitlementListOutput} IDN Entitlement List Output
+     */
+    public roleToEntitlement(role: string): StdEntitlementListOutput {
+        if (ROLE_NAMES[role] == null) {
+            throw new ConnectorError('Invalid role: ' + role)
+        }
+        return {
+            identity: role,
+            uuid: role,
+            type: 'role',
+            attributes: {
+                id: role,
+                name: ROLE_NAMES[role]
+            }
+        }
+    }
+
+    /**
+     * Parses a trust level entitlement (ex. TL2).  The bare level number is accepted as well.
+     *
+     * @param {string} trustLevel the trust level entitlement
+     * @returns {number} the trust level, from 0 to 4
+     */
+    public parseTrustLevel(trustLevel: string): number {
+        const level = Number(String(trustLevel).replace(/^TL/i, ''))
+        if (trustLevel === '' || !Number.isInteger(level) || TRUST_LEVEL_NAMES[level] == null) {
+            throw new ConnectorError('Invalid trust level: ' + trustLevel)
+        }
+        return level
+    }
+
+    /**
+     * converts group entitlement attributes to the group fields to create or update
+     *
+     * @param {Attributes} attributes group entitlement attributes (ex. fullName, visibilityLevel, owners)
+     * @returns {GroupUpdate} the group fields, only including the provided attributes
+     */
+    public attributesToGroupUpdate(attributes: Attributes): GroupUpdate {
+        const update = new GroupUpdate()
+        if (attributes.name != null) {
+            update.name = String(attributes.name)
+        }
+        if (attributes.fullName != null) {
+            update.full_name = String(attributes.fullName)
+        }
+        if (attributes.bio != null) {
+            update.bio_raw = String(attributes.bio)
+        }
+        update.visibility_level = this.levelValue(VISIBILITY_LEVELS, 'visibilityLevel', attributes.visibilityLevel)
+        update.members_visibility_level = this.levelValue(VISIBILITY_LEVELS, 'membersVisibilityLevel', attributes.membersVisibilityLevel)
+        update.mentionable_level = this.levelValue(ALIAS_LEVELS, 'mentionableLevel', attributes.mentionableLevel)
+        update.messageable_level = this.levelValue(ALIAS_LEVELS, 'messageableLevel', attributes.messageableLevel)
+        if (attributes.publicAdmission != null) {
+            update.public_admission = attributes.publicAdmission === true || attributes.publicAdmission === 'true'
+        }
+        if (attributes.allowMembershipRequests != null) {
+            update.allow_membership_requests = attributes.allowMembershipRequests === true || attributes.allowMembershipRequests === 'true'
+        }
+        if (attributes.owners != null) {
+            const owners = Array.isArray(attributes.owners) ? attributes.owners : [attributes.owners]
+            update.owner_usernames = owners.join(',')
+        }
+
+        return update
+    }
+
+    /**
+     * Parses a group entitlement identity (ex. 1:admins).  A bare group name is accepted as well,
+     * in which case the returned group id is -1.
+     *
+     * @param {string} identity the group entitlement identity
+     * @returns {Group} a group with only the id and name set
+     */
+    public parseGroupIdentity(identity: string): Group {
+        const group = new Group()
+        const separator = identity.indexOf(':')
+        const id = separator > 0 ? Number(identity.substring(0, separator)) : NaN
+        if (isNaN(id)) {
+            group.name = identity
+        } else {
+            group.id = id
+            group.name = identity.substring(separator + 1)
+        }
+        return group
+    }
+
+    private levelValue(levels: { [level: number]: string }, attribute: string, value: Attributes[string] | undefined): number | undefined {
+        if (value == null) {
+            return undefined
+        }
+        for (const level in levels) {
+            if (levels[level] === value || level === String(value)) {
+                return Number(level)
             }
         }
+        throw new ConnectorError(`Invalid ${attribute}: ${value}`)
+    }
+
+    private levelName(levels: { [level: number]: string }, level?: number): string | null {
+        if (level == null) {
+            return null
+        }
+        return levels[level] ?? level.toString()
+    }
+
+    /**
+     * Reads the state saved by the previous account aggregation.
+     * A missing, incompatible or stale state returns undefined so that a full aggregation runs instead.
+     *
+     * @param {CommandState} state the state provided by IDN
+     * @param {number} maxAgeHours how old the state may be before a full aggregation is forced
+     * @returns {AggregationState | undefined} the usable state, if any
+     */
+    public readAggregationState(state: CommandState | undefined, maxAgeHours: number): AggregationState | undefined {
+        if (state == null || state.version !== AggregationState.VERSION || !Array.isArray(state.memberIds)) {
+            return undefined
+        }
+
+        const lastAggregation = Date.parse(state.lastAggregation)
+        if (isNaN(lastAggregation) || Date.now() - lastAggregation > maxAgeHours * 60 * 60 * 1000) {
+            return undefined
+        }
+
+        const aggregationState = new AggregationState()
+        aggregationState.lastAggregation = state.lastAggregation
+        aggregationState.memberIds = state.memberIds
+        return aggregationState
+    }
+
+    /**
+     * Checks whether a user has any activity since the given timestamp.
+     * Admin changes (ex. a suspension) don't update these timestamps, they are found in the staff action logs instead.
+     *
+     * @param {User} user partial user, as returned by the group members list
+     * @param {string} since ISO timestamp of the previous aggregation
+     * @returns {boolean} true if the account must be sent again
+     */
+    public hasActivitySince(user: User, since: string): boolean {
+        const sinceTime = Date.parse(since)
+        return [user.updated_at, user.last_seen_at, user.created_at].some(timestamp => {
+            return timestamp != null && Date.parse(timestamp) > sinceTime
+        })
+    }
+
+    /**
+     * Builds the IDN account list output of an account that is no longer aggregated
+     *
+     * @param {number} id the id of the user
+     * @returns {StdAccountListOutput} IDN deleted account output
+     */
+    public deletedAccount(id: number): StdAccountListOutput {
+        return {
+            identity: id.toString(),
+            deleted: true,
+            attributes: {}
+        }
     }
 
     /**
@@ -109,7 +684,10 @@ export class Util {
      * @param {AttributeChange} c the attribute change object that tells what to remove
      */
     public accountRemove(account: StdAccountCreateOutput, c: AttributeChange) {
-        if (c.attribute == 'groups') {
+        if (MULTI_VALUED_ATTRIBUTES.includes(c.attribute) || Array.isArray(account.attributes[c.attribute])) {
+            if (account.attributes[c.attribute] == null) {
+                return
+            }
             if (Array.isArray(c.value)) {
                 c.value.forEach(v => {
                     const attribute: string[] = <string[]>account.attributes[c.attribute]
@@ -125,10 +703,22 @@ export class Util {
                     attribute.splice(position, 1)
                 }
             }
-        } else if (account.attributes[c.attribute] != null) {
+        } else if (account.attributes[c.attribute] != null && this.isCurrentValue(c.attribute, account.attributes[c.attribute], c.value)) {
+            // Removing another value than the current one, ex. a trust level the user no longer has, changes nothing.
             account.attributes[c.attribute] = null
         }
     }
+
+    private isCurrentValue(attribute: string, current: Attributes[string], value: Attributes[string] | undefined): boolean {
+        const values = Array.isArray(value) ? value : [value]
+        if (value == null || values.length == 0) {
+            return true
+        }
+        if (attribute == 'trustLevel') {
+            return values.some(v => v != null && this.parseTrustLevel(String(v)) == this.parseTrustLevel(String(current)))
+        }
+        return values.some(v => String(v) == String(current))
+    }
     
     /**
      * Adds an account(s) from the IDN account create object
@@ -138,10 +728,11 @@ export class Util {
      */
     public accountAdd(account: StdAccountCreateOutput, c: AttributeChange) {
         const attribute: string[] = <string[]>account.attributes[c.attribute]
-        if (attribute == null) {
+        if (attribute == null || SINGLE_VALUED_ENTITLEMENTS.includes(c.attribute)) {
             account.attributes[c.attribute] = c.value
         } else {
-            if (c.attribute != 'groups') {
+            // Attributes of multiselect user fields are multi-valued as well.
+            if (!MULTI_VALUED_ATTRIBUTES.includes(c.attribute) && !Array.isArray(attribute)) {
                 throw new ConnectorError('Cannot add value to attribute: ' + c.attribute)
             }
     
@@ -0,0 +1,53 @@
+import { ConnectorError } from "@sailpoint/connector-sdk"
+
+/**
+ * WorkerPool runs asynchronous tasks with a bounded number of tasks in flight.
+ */
+export class WorkerPool {
+    private readonly running = new Set<Promise<void>>()
+    private error?: unknown
+
+    constructor(private readonly concurrency: number) {
+        if (!(concurrency >= 1)) {
+            throw new ConnectorError(`Invalid worker pool concurrency: ${concurrency}`)
+        }
+    }
+
+    /**
+     * Starts a task as soon as a worker is free.  The returned promise resolves once the task
+     * has been started, not when it completes, so that the caller can keep producing tasks.
+     * @param task the task to run.
+     */
+    async submit(task: () => Promise<void>): Promise<void> {
+        while (this.running.size >= this.concurrency) {
+            await Promise.race(this.running)
+        }
+        this.throwIfFailed()
+
+        const promise: Promise<void> = task()
+            .catch((error: unknown) => {
+                this.error = this.error ?? error
+            })
+            .finally(() => {
+                this.running.delete(promise)
+            })
+        this.running.add(promise)
+    }
+
+    /**
+     * Waits for all the submitted tasks to complete.
+     * @throws the first error raised by a task.
+     */
+    async drain(): Promise<void> {
+        while (this.running.size > 0) {
+            await Promise.all(this.running)
+        }
+        this.throwIfFailed()
+    }
+
+    private throwIfFailed(): void {
+        if (this.error !== undefined) {
+            throw this.error
+        }
+    }
+}
@@ -1,6 +1,9 @@
-import { ConnectorError } from '@sailpoint/connector-sdk'
+import { ConnectorError, ConnectorErrorType } from '@sailpoint/connector-sdk'
 import { InvalidConfigurationError } from '../src/errors/invalid-configuration-error'
 import { DiscourseClient } from '../src/discourse-client'
+import { UserDirectory } from '../src/model/user-directory'
+import { User } from '../src/model/user'
+import crypto from 'crypto'
 
 jest.mock('../src/http/axios-wrapper')
 const discourseClient = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group',  employeeIdFieldId: '1'})
@@ -14,13 +17,6 @@ describe('test happy paths', () => {
     expect(res).toStrictEqual({})
   })
 
-  it('get users populates correct fields', async () => {
-    const res = await discourseClient.getUsers(0, 2)
-
-    expect(res.length).toBe(2)
-    expect(res[0].email === 'test.test@test.com')
-  })
-
   it('get user returns correct email', async () => {
     let res = await discourseClient.getUser('100')
 
@@ -31,6 +27,391 @@ describe('test happy paths', () => {
     expect(res.email === 'test2.test2@test2.com')
   })
 
+  it('get user emails in bulk', async () => {
+    const res = await discourseClient.getUserEmails()
+
+    expect(res.size).toBe(2)
+    expect(res.get(1305)).toBe('test2.test2@test2.com')
+  })
+
+  it('get user with known email skips the email lookup', async () => {
+    const spy = jest.spyOn(DiscourseClient.prototype as any, "getUserEmailAddress")
+    const directory = new UserDirectory()
+    directory.emails.set(100, 'known@test.com')
+    const res = await discourseClient.getUser('100', directory)
+
+    expect(spy).toBeCalledTimes(0)
+    expect(res.email).toBe('known@test.com')
+  })
+
+  it('list scope users deduplicates group members', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', additionalGroups: ['group'], employeeIdFieldId: '1' })
+    const ids: number[] = []
+    for await (const user of client.listScopeUsers()) {
+      ids.push(user.id)
+    }
+
+    expect(ids).toStrictEqual([100, 1305])
+  })
+
+  it('list scope users from the admin user list with exclusions', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', aggregationScope: 'all', excludeUsernamePattern: '2$', employeeIdFieldId: '1' })
+    const users = []
+    for await (const user of client.listScopeUsers()) {
+      users.push(user)
+    }
+
+    expect(users.length).toBe(1)
+    expect(users[0].email).toBe('test.test@test.com')
+  })
+
+  it('update group replaces its owners', async () => {
+    const spy = jest.spyOn(discourseClient.httpClient, 'put')
+    const deleteSpy = jest.spyOn(discourseClient.httpClient, 'delete')
+    const group = await discourseClient.getGroup('admins')
+
+    const res = await discourseClient.updateGroup(group, { full_name: 'Administrators', owner_usernames: 'test2' })
+
+    expect(res.name).toBe('admins')
+    expect(spy).toBeCalledWith('/groups/1.json', { group: { full_name: 'Administrators' } })
+    expect(spy).toBeCalledWith('/admin/groups/1/owners.json', { group: { usernames: 'test2' } })
+    expect(deleteSpy).toBeCalledWith('/admin/groups/1/owners.json', { params: { user_id: 1 } })
+  })
+
+  it('get user resolves owned groups', async () => {
+    const res = await discourseClient.getUser('100')
+
+    expect(res.owned_groups).toStrictEqual([{ id: 11, name: 'trust_level_1' }])
+  })
+
+  it('update user grants and revokes group ownership', async () => {
+    const putSpy = jest.spyOn(discourseClient.httpClient, 'put')
+    const deleteSpy = jest.spyOn(discourseClient.httpClient, 'delete')
+    const origUser = await discourseClient.getUser('100')
+
+    await discourseClient.updateUser(origUser, { ...origUser, owned_groups: [{ id: 49, name: 'business_development' }] }, 'test')
+
+    expect(putSpy).toBeCalledWith('/admin/groups/49/owners.json', { group: { usernames: 'test' } })
+    expect(deleteSpy).toBeCalledWith('/admin/groups/11/owners.json', { params: { user_id: 100 } })
+  })
+
+  it('update user grants and locks the trust level', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1', lockTrustLevel: true })
+    const putSpy = jest.spyOn(client.httpClient, 'put')
+    const origUser = await client.getUser('100')
+
+    await client.updateUser(origUser, { ...origUser, trust_level: 3 }, 'test')
+
+    expect(putSpy).toBeCalledWith('/admin/users/100/trust_level.json', { level: 3 })
+    expect(putSpy).toBeCalledWith('/admin/users/100/trust_level_lock.json', { locked: true })
+  })
+
+  it('update user revokes the trust level', async () => {
+    const putSpy = jest.spyOn(discourseClient.httpClient, 'put')
+    const origUser = await discourseClient.getUser('100')
+
+    await discourseClient.updateUser(origUser, { ...origUser, trust_level: undefined }, 'test')
+
+    expect(putSpy).not.toBeCalledWith('/admin/users/100/trust_level.json', expect.anything())
+    expect(putSpy).toBeCalledWith('/admin/users/100/trust_level_lock.json', { locked: false })
+  })
+
+  it('update user locks the trust level before a demotion', async () => {
+    const putSpy = jest.spyOn(discourseClient.httpClient, 'put')
+    const origUser = await discourseClient.getUser('100')
+
+    await discourseClient.updateUser({ ...origUser, trust_level: 3 }, { ...origUser, trust_level: 1 }, 'test')
+
+    const trustLevelCalls = putSpy.mock.calls.filter(([url]) => url.startsWith('/admin/users/100/trust_level')).map(([url]) => url)
+    expect(trustLevelCalls).toEqual(['/admin/users/100/trust_level_lock.json', '/admin/users/100/trust_level.json', '/admin/users/100/trust_level_lock.json'])
+    expect(putSpy).toBeCalledWith('/admin/users/100/trust_level.json', { level: 1 })
+  })
+
+  it('get the targets of the staff actions since the last aggregation', async () => {
+    expect(await discourseClient.getStaffActionTargetIds('2023-05-15T00:00:00.000Z')).toEqual(new Set([1305]))
+    expect(await discourseClient.getStaffActionTargetIds('2023-01-01T00:00:00.000Z')).toEqual(new Set([1305, 100]))
+  })
+
+  it('get badge grants in bulk', async () => {
+    const res = await discourseClient.getBadgeGrants()
+
+    expect(res.get(100)).toStrictEqual([{ id: 1, name: 'Basic' }])
+  })
+
+  it('update user grants and revokes badges', async () => {
+    const postSpy = jest.spyOn(discourseClient.httpClient, 'post')
+    const deleteSpy = jest.spyOn(discourseClient.httpClient, 'delete')
+    const origUser = await discourseClient.getUser('100')
+    expect(origUser.badges).toStrictEqual([{ id: 1, name: 'Basic' }])
+
+    await discourseClient.updateUser(origUser, { ...origUser, badges: [{ id: 104, name: 'IdentityNow Certified' }] }, 'test')
+
+    expect(postSpy).toBeCalledWith('/user_badges.json', { username: 'test', badge_id: 104 })
+    expect(deleteSpy).toBeCalledWith('/user_badges/371.json')
+  })
+
+  it('get categories includes subcategories and group permissions', async () => {
+    const res = await discourseClient.getCategories()
+
+    expect(res.map(category => category.name)).toStrictEqual(["Announcements", "Security", "Incidents"])
+    expect(res[1].group_permissions).toStrictEqual([{ permission_type: 1, group_name: "business_development" }])
+  })
+
+  it('update user grants and revokes roles', async () => {
+    const putSpy = jest.spyOn(discourseClient.httpClient, 'put')
+    const origUser = await discourseClient.getUser('100')
+
+    await discourseClient.updateUser(origUser, { ...origUser, admin: true }, 'test')
+    expect(putSpy).toBeCalledWith('/admin/users/100/grant_admin.json', {})
+
+    await discourseClient.updateUser({ ...origUser, moderator: true }, { ...origUser, moderator: false }, 'test')
+    expect(putSpy).toBeCalledWith('/admin/users/100/revoke_moderation.json', {})
+  })
+
+  it('update user rejects changes to automatic groups', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1' })
+    const putSpy = jest.spyOn(client.httpClient, 'put')
+    const origUser = await client.getUser('100')
+    const groups = (origUser.groups ?? []).filter(group => group.name != 'trust_level_1')
+
+    await expect(client.updateUser(origUser, { ...origUser, groups: groups }, 'test')).rejects.toThrow('trust_level_1')
+    await expect(client.updateUser(origUser, { ...origUser, groups: [...groups, { id: 1, name: 'admins' }] }, 'test')).rejects.toThrow('admins')
+    expect(putSpy).not.toBeCalled()
+  })
+
+  it('get user fields', async () => {
+    const res = await discourseClient.getUserFields()
+
+    expect(res.map(field => field.name)).toStrictEqual(["Employee ID", "Department", "Remote worker", "Office Locations"])
+  })
+
+  it('get user by external id', async () => {
+    const getSpy = jest.spyOn(discourseClient.httpClient, 'get')
+    const res = await discourseClient.getUserByExternalId('E1305')
+
+    expect(getSpy).toBeCalledWith('/u/by-external/E1305.json')
+    expect(res.id).toBe(100)
+    expect((await discourseClient.getUser('1305')).external_id).toBe('E1305')
+  })
+
+  it('create user through DiscourseConnect', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1', ssoProvisioning: true, ssoSecret: 'secret' })
+    const postSpy = jest.spyOn(client.httpClient, 'post').mockResolvedValueOnce({ data: { id: 100, username: 'test' } })
+
+    const putSpy = jest.spyOn(client.httpClient, 'put')
+
+    await client.createUser({ id: 0, email: 'test@test.com', username: 'test', name: 'Test', external_id: 'E100', user_fields: { '1': 'E100' } })
+
+    expect(putSpy.mock.calls[0][0]).toBe('/u/test.json')
+    expect(putSpy.mock.calls[0][1].user_fields).toStrictEqual({ '1': 'E100' })
+    const body = postSpy.mock.calls[0][1]
+    expect(postSpy.mock.calls[0][0]).toBe('/admin/users/sync_sso')
+    expect(body.sig).toBe(crypto.createHmac('sha256', 'secret').update(body.sso).digest('hex'))
+    const payload = new URLSearchParams(Buffer.from(body.sso, 'base64').toString())
+    expect(payload.get('external_id')).toBe('E100')
+    expect(payload.get('email')).toBe('test@test.com')
+    expect(payload.get('username')).toBe('test')
+    await expect(client.createUser({ id: 0, email: 'test@test.com', username: 'test' })).rejects.toThrow("'externalId' is required")
+  })
+
+  it('create user adopts an existing user with the same email', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1', createPolicy: 'adopt' })
+    jest.spyOn(client.httpClient, 'post').mockResolvedValueOnce({ data: { success: false, errors: { email: ['has already been taken'] } } })
+    const getSpy = jest.spyOn(client.httpClient, 'get')
+
+    const res = await client.createUser({ id: 0, email: 'TEST.test@test.com', username: 'test.retry' })
+
+    expect(getSpy).toBeCalledWith('/admin/users/list/all.json', { params: { show_emails: true, page: 1, email: 'TEST.test@test.com' } })
+    expect(res.username).toBe('test')
+  })
+
+  it('create user adopts an existing user with the same employee id', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1', createPolicy: 'adopt',
+      usernameNormalization: true })
+    const getSpy = jest.spyOn(client.httpClient, 'get')
+    const postSpy = jest.spyOn(client.httpClient, 'post')
+    const putSpy = jest.spyOn(client.httpClient, 'put')
+    const usernameSpy = jest.spyOn(client, 'getUserByUsername')
+
+    await client.createUser({ id: 0, email: 'other@test.com', username: 'test2.new', user_fields: { '1': 'E1305' } })
+
+    expect(getSpy).toBeCalledWith('/directory_items.json', { params: { period: 'all', name: 'E1305', user_field_ids: '1' } })
+    expect(postSpy).not.toBeCalled()
+    expect(usernameSpy).toBeCalledWith('test2')
+    expect(putSpy.mock.calls[0][1].user_fields).toStrictEqual({ '1': 'E1305' })
+    postSpy.mockResolvedValueOnce({ data: { success: false, message: 'Primary email has already been taken', errors: { email: ['has already been taken'] } } })
+    await expect(client.createUser({ id: 0, email: 'other@test.com', username: 'test2', user_fields: { '1': 'E200' } })).rejects.toMatchObject({ name: 'ConflictError' })
+  })
+
+  it('create user adopts a new user with the same employee id missing from the directory', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1', createPolicy: 'adopt' })
+    const getSpy = jest.spyOn(client.httpClient, 'get')
+    getSpy.mockImplementation(async (url: string, data?: any) => {
+      if (url == '/directory_items.json') {
+        return { data: { directory_items: [] } }
+      } else if (url == '/admin/users/list/all.json' && data?.params?.order == 'created') {
+        return { data: [{ id: 1305, username: 'test2', created_at: new Date().toISOString() }, { id: 100, username: 'test', created_at: '2021-03-01T17:17:37.230Z' }] }
+      }
+      return jest.requireActual('../src/http/__mocks__/axios-wrapper').AxiosWrapper.prototype.get(url, data)
+    })
+    const postSpy = jest.spyOn(client.httpClient, 'post')
+    const usernameSpy = jest.spyOn(client, 'getUserByUsername')
+
+    await client.createUser({ id: 0, email: 'other@test.com', username: 'test2.new', user_fields: { '1': 'E1305' } })
+
+    expect(postSpy).not.toBeCalled()
+    expect(usernameSpy).toBeCalledWith('test2')
+    expect(getSpy).toBeCalledWith('/admin/users/1305.json')
+  })
+
+  it('create user claims a staged user with the same email', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1', createPolicy: 'claimStaged' })
+    const stagedUser = { id: 200, username: 'staged_user', email: 'staged@test.com', active: false, staged: true }
+    let unstaged = false
+    const postSpy = jest.spyOn(client.httpClient, 'post').mockImplementation(async (url: string, data: any) => {
+      if (data.username != stagedUser.username) {
+        return { data: { success: false, message: 'Username must be unique', errors: { username: ['must be unique'] } } }
+      }
+      unstaged = true
+      return { data: { success: true, active: true, user_id: 200 } }
+    })
+    jest.spyOn(client.httpClient, 'get').mockImplementation(async (url: string, data?: any) => {
+      if (url == '/admin/users/list/all.json') {
+        return { data: [] }
+      } else if (url == '/admin/users/list/staged.json') {
+        return { data: [stagedUser] }
+      } else if (url == '/admin/users/200.json') {
+        return { data: { ...stagedUser, active: unstaged, staged: !unstaged } }
+      }
+      return jest.requireActual('../src/http/__mocks__/axios-wrapper').AxiosWrapper.prototype.get(url, data)
+    })
+    const putSpy = jest.spyOn(client.httpClient, 'put')
+    const usernameSpy = jest.spyOn(client, 'getUserByUsername')
+
+    await client.createUser({ id: 0, email: 'staged@test.com', username: 'test' })
+
+    expect(postSpy.mock.calls[1][1]).toMatchObject({ email: 'staged@test.com', username: 'staged_user' })
+    expect(putSpy).toBeCalledWith('/admin/users/200/activate.json', {})
+    expect(usernameSpy).toBeCalledWith('staged_user')
+    // The staged user stays staged when Discourse doesn't unstage it.
+    unstaged = false
+    postSpy.mockResolvedValueOnce({ data: { success: false, errors: { username: ['must be unique'] } } }).mockResolvedValueOnce({ data: { success: true } })
+    await expect(client.createUser({ id: 0, email: 'staged@test.com', username: 'test' })).rejects.toThrow('could not be unstaged')
+  })
+
+  it('create user normalizes the username and resolves collisions', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1',
+      usernameNormalization: true, usernamePatterns: ['{username}', '{firstName}.{lastName}'] })
+    const postSpy = jest.spyOn(client.httpClient, 'post')
+
+    await client.createUser({ id: 0, email: 'test@test.com', username: 'Test', name: 'Jöhn Doe' })
+
+    expect(postSpy.mock.calls[0][1].username).toBe('John.Doe')
+  })
+
+  it('create user fails when no username is available', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1',
+      usernameNormalization: true, usernamePatterns: ['{username}'] })
+
+    await expect(client.createUser({ id: 0, email: 'test@test.com', username: 'test' })).rejects.toMatchObject({ name: 'ConflictError' })
+  })
+
+  it('disable user with the configured strategy', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1',
+      disableStrategy: 'silence', disableDurationDays: 30, disableReason: 'Left the company on {date}', disableNotifyUser: true, disableMessage: 'Goodbye {username}' })
+    const putSpy = jest.spyOn(client.httpClient, 'put')
+
+    await client.disableUser({ id: 100, username: 'test' })
+
+    const body = putSpy.mock.calls[0][1]
+    expect(putSpy.mock.calls[0][0]).toBe('/admin/users/100/silence.json')
+    expect(body.reason).toBe(`Left the company on ${new Date().toISOString().slice(0, 10)}`)
+    expect(body.message).toBe('Goodbye test')
+    expect(new Date(body.silenced_till).getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000)
+  })
+
+  it('disable user suspends indefinitely by default', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1' })
+    const putSpy = jest.spyOn(client.httpClient, 'put')
+
+    await client.disableUser({ id: 100, username: 'test' })
+
+    expect(putSpy).toBeCalledWith('/admin/users/100/suspend.json', { suspend_until: '9999-01-01', reason: 'User is disabled in SailPoint IdentityNow', message: undefined })
+  })
+
+  it('silence user for a duration with a reason and message', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1' })
+    const putSpy = jest.spyOn(client.httpClient, 'put')
+
+    await client.silenceUserFor({ id: 100, username: 'test' }, 'Spam', 7, 'You are silenced until {until}')
+
+    const body = putSpy.mock.calls[0][1]
+    expect(putSpy.mock.calls[0][0]).toBe('/admin/users/100/silence.json')
+    expect(body.reason).toBe('Spam')
+    expect(body.message).toBe(`You are silenced until ${body.silenced_till.slice(0, 10)}`)
+    expect(new Date(body.silenced_till).getTime()).toBeGreaterThan(Date.now() + 6 * 24 * 60 * 60 * 1000)
+    await expect(client.silenceUserFor({ id: 100, username: 'test' }, 'Spam', -1)).rejects.toThrow(ConnectorError)
+  })
+
+  it('enable user reverses the disable strategy', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1', disableStrategy: 'deactivate' })
+    const putSpy = jest.spyOn(client.httpClient, 'put')
+
+    await client.disableUser({ id: 100, username: 'test' })
+    expect(putSpy).toBeCalledWith('/admin/users/100/deactivate.json', {})
+
+    await client.enableUser({ id: 100, username: 'test', active: false, suspended_till: '9999-01-01T00:00:00.000Z', silenced_till: null })
+    expect(putSpy).toBeCalledWith('/admin/users/100/activate.json', {})
+    expect(putSpy).not.toBeCalledWith('/admin/users/100/unsuspend.json', {})
+    expect(putSpy).not.toBeCalledWith('/admin/users/100/unsilence.json', {})
+  })
+
+  it('enable user leaves the silence of a moderator with the suspend strategy', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1' })
+    const putSpy = jest.spyOn(client.httpClient, 'put')
+
+    await client.enableUser({ id: 100, username: 'test', active: true, suspended_till: '9999-01-01T00:00:00.000Z', silenced_till: '9999-01-01T00:00:00.000Z' })
+    expect(putSpy).toBeCalledWith('/admin/users/100/unsuspend.json', {})
+    expect(putSpy).not.toBeCalledWith('/admin/users/100/unsilence.json', {})
+    expect(putSpy).not.toBeCalledWith('/admin/users/100/activate.json', {})
+  })
+
+  it('unlock user clears the lock conditions', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1' })
+    const putSpy = jest.spyOn(client.httpClient, 'put')
+    const suspendedTill = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
+
+    await client.unlockUser({ id: 100, username: 'test', active: false, approved: false, suspended_till: suspendedTill, silenced_till: suspendedTill })
+
+    expect(putSpy).toBeCalledWith('/admin/users/100/unsilence.json', {})
+    expect(putSpy).toBeCalledWith('/admin/users/100/unsuspend.json', {})
+    expect(putSpy).toBeCalledWith('/admin/users/100/activate.json', {})
+    expect(putSpy).toBeCalledWith('/admin/users/100/approve.json', {})
+  })
+
+  it('unlock user leaves disabled users disabled', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1', disableStrategy: 'deactivate' })
+    const putSpy = jest.spyOn(client.httpClient, 'put')
+
+    await client.unlockUser({ id: 100, username: 'test', active: false, approved: true, suspended_till: '9999-01-01T00:00:00.000Z' })
+
+    expect(putSpy).not.toBeCalled()
+  })
+
+  it('unlock user leaves the silence and timed suspension of the disable strategy', async () => {
+    const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
+    const silenceClient = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1', disableStrategy: 'silence' })
+    const silencePutSpy = jest.spyOn(silenceClient.httpClient, 'put')
+    const suspendClient = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1', disableDurationDays: 30 })
+    const suspendPutSpy = jest.spyOn(suspendClient.httpClient, 'put')
+
+    await silenceClient.unlockUser({ id: 100, username: 'test', active: true, approved: true, silenced_till: nextWeek })
+    await suspendClient.unlockUser({ id: 100, username: 'test', active: true, approved: true, suspended_till: nextWeek })
+
+    expect(silencePutSpy).not.toBeCalled()
+    expect(suspendPutSpy).not.toBeCalled()
+  })
+
   it('create user returns correct email', async () => {
     const spy = jest.spyOn(DiscourseClient.prototype as any, "generateRandomPassword")
     const res = await discourseClient.createUser({"id": 0, "email": "", "username": "test", "password": "12345test" })
@@ -46,14 +427,128 @@ describe('test happy paths', () => {
   })
 
   it('get users populates correct fields', async () => {
-    const res = await discourseClient.deleteUser("")
+    const res = await discourseClient.deleteUser(<User>{id: 100, username: 'test', post_count: 0})
 
     expect(res).toStrictEqual({})
   })
 
+  it('delete user with posts and block options', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1',
+      deleteStrategy: 'deleteWithPosts', deleteBlockEmail: true, deleteBlockIp: true })
+    const deleteSpy = jest.spyOn(client.httpClient, 'delete')
+
+    await client.deleteUser(<User>{ id: 100, username: 'test', post_count: 12, can_delete_all_posts: true })
+
+    expect(deleteSpy).toBeCalledWith('/admin/users/100.json', { params: { delete_posts: true, block_email: true, block_ip: true, block_urls: false } })
+  })
+
+  it('delete user falls back when the strategy is not possible', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1' })
+    const deleteSpy = jest.spyOn(client.httpClient, 'delete')
+    const putSpy = jest.spyOn(client.httpClient, 'put')
+
+    await client.deleteUser(<User>{ id: 100, username: 'test', post_count: 3, can_be_deleted: false })
+
+    expect(deleteSpy).not.toBeCalled()
+    expect(putSpy).toBeCalledWith('/admin/users/100/deactivate.json', {})
+  })
+
+  it('delete user falls back when Discourse refuses the strategy', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1',
+      deleteFallback: 'anonymize' })
+    jest.spyOn(client.httpClient, 'delete').mockRejectedValueOnce({ message: 'Forbidden', response: { status: 403 } })
+    const putSpy = jest.spyOn(client.httpClient, 'put')
+
+    await client.deleteUser(<User>{ id: 100, username: 'test', post_count: 0 })
+
+    expect(putSpy).toBeCalledWith('/admin/users/100/anonymize.json', {})
+  })
+
+  it('delete user fails when no fallback is allowed', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1',
+      deleteStrategy: 'anonymize', deleteFallback: 'fail' })
+    const putSpy = jest.spyOn(client.httpClient, 'put')
+
+    await expect(client.deleteUser(<User>{ id: 100, username: 'test', can_be_anonymized: false })).rejects.toThrow(ConnectorError)
+    expect(putSpy).not.toBeCalled()
+  })
+
 })
 
 describe('test exception', () => {
+  it('test connection lists every configuration error', async () => {
+    const client = new DiscourseClient({ apiKey: 'scoped', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'missing', employeeIdFieldId: '9' })
+    const refused = { message: 'Request failed with status code 403', response: { status: 403, data: { errors: ['You are not permitted to view the requested resource.'], error_type: 'invalid_access' } } }
+    const notFound = { message: 'Request failed with status code 404', response: { status: 404, data: { errors: ['The requested URL or resource could not be found.'], error_type: 'not_found' } } }
+    jest.spyOn(client.httpClient, 'get').mockImplementation(async (url: string) => {
+      if (url == '/groups/missing.json' || url.startsWith('/c/')) {
+        throw notFound
+      } else if (url == '/admin/api/keys.json' || url == '/u/apiKey/emails.json' || url.startsWith('/user-badges/')) {
+        throw refused
+      }
+      return jest.requireActual('../src/http/__mocks__/axios-wrapper').AxiosWrapper.prototype.get(url)
+    })
+    const putSpy = jest.spyOn(client.httpClient, 'put')
+    const postSpy = jest.spyOn(client.httpClient, 'post')
+    const deleteSpy = jest.spyOn(client.httpClient, 'delete')
+
+    await expect(client.testConnection()).rejects.toThrow('The configuration of Discourse 3.1.0.beta2 at https://baseurl/ is invalid:\n'
+      + '- The API key misses the users:check_emails, badges:list_user_badges scopes\n'
+      + '- The group missing does not exist\n'
+      + '- The employee id user field 9 does not exist')
+    expect(putSpy).not.toBeCalled()
+    expect(postSpy).not.toBeCalled()
+    expect(deleteSpy).not.toBeCalled()
+  })
+
+  it('test connection reports an API key refused for every scope', async () => {
+    const client = new DiscourseClient({ apiKey: 'invalid', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1' })
+    const refused = { message: 'Request failed with status code 403', response: { status: 403, data: { errors: ['You are not permitted to view the requested resource.'], error_type: 'invalid_access' } } }
+    jest.spyOn(client.httpClient, 'get').mockRejectedValue(refused)
+
+    await expect(client.testConnection()).rejects.toThrow('- The API key is refused for every scope the connector needs')
+  })
+
+  it('test connection goes on when the staff list fails', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'missing', employeeIdFieldId: '1' })
+    jest.spyOn(client.httpClient, 'get').mockImplementation(async (url: string) => {
+      if (url == '/admin/users/list/staff.json') {
+        throw { message: 'Request failed with status code 403', response: { status: 403, data: { errors: ['You are not permitted to view the requested resource.'], error_type: 'invalid_access' } } }
+      } else if (url == '/groups/missing.json') {
+        throw { message: 'Request failed with status code 404', response: { status: 404, data: { errors: ['The requested URL or resource could not be found.'], error_type: 'not_found' } } }
+      }
+      return jest.requireActual('../src/http/__mocks__/axios-wrapper').AxiosWrapper.prototype.get(url)
+    })
+
+    await expect(client.testConnection()).rejects.toThrow('The configuration of Discourse 3.1.0.beta2 at https://baseurl/ is invalid:\n'
+      + '- Unable to list the staff users of Discourse at https://baseurl/: You are not permitted to view the requested resource.\n'
+      + '- The group missing does not exist')
+  })
+
+  it('get user of a missing user throws not found', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1' })
+    jest.spyOn(client.httpClient, 'get').mockRejectedValueOnce({ message: 'Request failed with status code 404', response: { status: 404, data: { errors: ['The requested URL or resource could not be found.'], error_type: 'not_found' } } })
+
+    await expect(client.getUser('404')).rejects.toMatchObject({ name: 'NotFoundError', type: ConnectorErrorType.NotFound })
+  })
+
+  it('ignores conflicts but not validation errors', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1' })
+    jest.spyOn(client.httpClient, 'put')
+      .mockRejectedValueOnce({ response: { status: 409, data: { errors: ['system suspended this user 2 days ago.'] } } })
+      .mockRejectedValueOnce({ response: { status: 422, data: { errors: ['Reason can\'t be blank'] } } })
+
+    await expect(client.suspendUser('100')).resolves.toBe(true)
+    await expect(client.suspendUser('100')).rejects.toThrow('Failed to suspend user 100: Reason can\'t be blank')
+  })
+
+  it('create user reports the errors of Discourse', async () => {
+    const client = new DiscourseClient({ apiKey: 'company', apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1' })
+    jest.spyOn(client.httpClient, 'post').mockResolvedValueOnce({ data: { success: false, message: 'Primary email has already been taken', errors: { email: ['has already been taken'] } } })
+
+    await expect(client.createUser({ id: 0, email: 'test@test.com', username: 'test' })).rejects.toMatchObject({ name: 'ConflictError' })
+  })
+
   it('create client with invalid config', async () => {
     try {
       new DiscourseClient({ apiUsername: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group' })
@@ -78,5 +573,24 @@ describe('test exception', () => {
     } catch (e) {
       expect(e instanceof InvalidConfigurationError).toBeTruthy()
     }
+
+    expect(() => new DiscourseClient({ apiUsername: 'apiKey', apiKey: 'apiKey', baseUrl: 'baseUrl', aggregationScope: 'active', excludeUsernamePattern: '(', employeeIdFieldId: '1' }))
+      .toThrow(InvalidConfigurationError)
+    expect(() => new DiscourseClient({ apiUsername: 'apiKey', apiKey: 'apiKey', baseUrl: 'baseUrl', primaryGroup: ' ', additionalGroups: [''], employeeIdFieldId: '1' }))
+      .toThrow(InvalidConfigurationError)
+    expect(() => new DiscourseClient({ apiUsername: 'apiKey', apiKey: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1', ssoProvisioning: true }))
+      .toThrow(InvalidConfigurationError)
+    expect(() => new DiscourseClient(<any>{ apiUsername: 'apiKey', apiKey: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1', disableStrategy: 'block' }))
+      .toThrow(InvalidConfigurationError)
+    expect(() => new DiscourseClient(<any>{ apiUsername: 'apiKey', apiKey: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1', deleteStrategy: 'purge' }))
+      .toThrow(InvalidConfigurationError)
+    expect(() => new DiscourseClient(<any>{ apiUsername: 'apiKey', apiKey: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1', createPolicy: 'merge' }))
+      .toThrow(InvalidConfigurationError)
+    expect(() => new DiscourseClient({ apiUsername: 'apiKey', apiKey: 'apiKey', baseUrl: 'ftp://forum', primaryGroup: 'group', employeeIdFieldId: '1' }))
+      .toThrow(InvalidConfigurationError)
+    expect(() => new DiscourseClient({ apiUsername: 'apiKey', apiKey: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1', clientCertificate: 'cert' }))
+      .toThrow(InvalidConfigurationError)
+    expect(() => new DiscourseClient({ apiUsername: 'apiKey', apiKey: 'apiKey', baseUrl: 'baseUrl', primaryGroup: 'group', employeeIdFieldId: '1', rateLimitPerMinute: -1 }))
+      .toThrow(InvalidConfigurationError)
   })
 })
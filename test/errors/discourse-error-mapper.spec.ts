@@ -0,0 +1,58 @@
+import { ConnectorError, ConnectorErrorType } from '@sailpoint/connector-sdk'
+import { fromFieldErrors, toDiscourseError } from '../../src/errors/discourse-error-mapper'
+import { NotFoundError } from '../../src/errors/not-found-error'
+import { ConflictError } from '../../src/errors/conflict-error'
+import { ValidationError } from '../../src/errors/validation-error'
+import { AuthorizationError } from '../../src/errors/authorization-error'
+import { RateLimitedError } from '../../src/errors/rate-limited-error'
+import { ServerError } from '../../src/errors/server-error'
+
+const responseError = (status: number, data?: any) => ({ message: `Request failed with status code ${status}`, response: { status: status, data: data } })
+
+describe('test discourse error mapper', () => {
+  it('maps not found errors to the NotFound type', async () => {
+    const error = toDiscourseError(responseError(404, { errors: ['The requested URL or resource could not be found.'], error_type: 'not_found' }), 'Failed to retrieve user 1')
+
+    expect(error).toBeInstanceOf(NotFoundError)
+    expect(error.type).toBe(ConnectorErrorType.NotFound)
+    expect(error.message).toBe('Failed to retrieve user 1: The requested URL or resource could not be found.')
+  })
+
+  it('maps errors by status and error type', async () => {
+    expect(toDiscourseError(responseError(403, { errors: ['You are not permitted to view the requested resource.'], error_type: 'invalid_access' }), 'failed'))
+      .toBeInstanceOf(AuthorizationError)
+    expect(toDiscourseError(responseError(429, { errors: ['Slow down'], error_type: 'rate_limit', extras: { wait_seconds: 5 } }), 'failed'))
+      .toBeInstanceOf(RateLimitedError)
+    expect(toDiscourseError(responseError(422, { errors: ['bob is already a member of this group'] }), 'failed')).toBeInstanceOf(ConflictError)
+    expect(toDiscourseError(responseError(422, { errors: ['Reason can\'t be blank'] }), 'failed')).toBeInstanceOf(ValidationError)
+    expect(toDiscourseError(responseError(409, { errors: ['system suspended this user 2 days ago.'] }), 'failed')).toBeInstanceOf(ConflictError)
+    expect(toDiscourseError(responseError(400, { errors: ['param is missing or the value is empty: level'], error_type: 'invalid_parameters' }), 'failed'))
+      .toBeInstanceOf(ValidationError)
+    expect(toDiscourseError(responseError(502), 'failed')).toBeInstanceOf(ServerError)
+  })
+
+  it('only maps the known messages of existing objects to conflicts', async () => {
+    expect(toDiscourseError(responseError(422, { errors: ['Primary email has already been taken'] }), 'failed')).toBeInstanceOf(ConflictError)
+    expect(toDiscourseError(responseError(422, { errors: ['Username must be unique'] }), 'failed')).toBeInstanceOf(ConflictError)
+    expect(toDiscourseError(responseError(422, { errors: ['The group doesn\'t exist'] }), 'failed')).toBeInstanceOf(ValidationError)
+    expect(toDiscourseError(responseError(422, { errors: ['This reason has already been used as a reason'] }), 'failed')).toBeInstanceOf(ValidationError)
+    expect(toDiscourseError(responseError(422, { errors: ['A category with that name already exists'] }), 'failed')).toBeInstanceOf(ValidationError)
+  })
+
+  it('keeps connector and network errors', async () => {
+    const connectorError = new ConnectorError('failed')
+
+    expect(toDiscourseError(connectorError, 'other')).toBe(connectorError)
+    expect(toDiscourseError(new Error('socket hang up'), 'Failed to retrieve user 1').message).toBe('Failed to retrieve user 1: Error: socket hang up')
+  })
+
+  it('maps field errors to conflicts or validation errors', async () => {
+    const conflict = fromFieldErrors('Failed to create user bob', { email: ['has already been taken'] })
+    expect(conflict).toBeInstanceOf(ConflictError)
+    expect(conflict.message).toBe('Failed to create user bob: email has already been taken')
+
+    expect(fromFieldErrors('Failed to create user bob', { password: ['is too short'] })).toBeInstanceOf(ValidationError)
+    expect(fromFieldErrors('Failed to create user bob', {}, 'New registrations are not allowed').message)
+      .toBe('Failed to create user bob: New registrations are not allowed')
+  })
+})
@@ -0,0 +1,19 @@
+import { normalizeBaseUrl } from '../../src/http/base-url'
+
+describe('test base url normalization', () => {
+  it('normalizes subfolder installs', async () => {
+    expect(normalizeBaseUrl('https://developer.sailpoint.com/discuss')).toBe('https://developer.sailpoint.com/discuss/')
+    expect(normalizeBaseUrl(' https://developer.sailpoint.com/discuss// ')).toBe('https://developer.sailpoint.com/discuss/')
+    expect(normalizeBaseUrl('https://developer.sailpoint.com/discuss/?page=1#top')).toBe('https://developer.sailpoint.com/discuss/')
+  })
+
+  it('adds the https scheme when it is missing', async () => {
+    expect(normalizeBaseUrl('forum.example.com')).toBe('https://forum.example.com/')
+    expect(normalizeBaseUrl('http://localhost:3000')).toBe('http://localhost:3000/')
+  })
+
+  it('rejects unsupported urls', async () => {
+    expect(() => normalizeBaseUrl('ftp://forum.example.com')).toThrow()
+    expect(() => normalizeBaseUrl('https://')).toThrow()
+  })
+})
@@ -1,8 +1,10 @@
 import { connector } from '../src/index'
-import { StandardCommand, StdAccountUpdateInput } from '@sailpoint/connector-sdk'
+import { StandardCommand, StdAccountUpdateInput, _withConfig } from '@sailpoint/connector-sdk'
 import { PassThrough } from 'stream'
 import { Config } from '../src/model/config'
 import { Util } from '../src/tools/util'
+import { DiscourseClient } from '../src/discourse-client'
+import { NotFoundError } from '../src/errors/not-found-error'
 
 jest.mock('../src/discourse-client')
 
@@ -14,6 +16,24 @@ const mockConfig: Config = {
 }
 process.env.CONNECTOR_CONFIG = Buffer.from(JSON.stringify(mockConfig)).toString('base64')
 
+const adminsEntitlementAttributes = {
+    "id": "1:admins",
+    "name": "admins",
+    "fullName": "",
+    "bio": "",
+    "automatic": true,
+    "userCount": 17,
+    "visibilityLevel": "logged_on_users",
+    "membersVisibilityLevel": "public",
+    "mentionableLevel": "nobody",
+    "messageableLevel": "nobody",
+    "publicAdmission": false,
+    "allowMembershipRequests": false,
+    "requestable": false,
+    "owners": ["test1"],
+    "categoryPermissions": []
+}
+
 describe('connector unit tests', () => {
 
     it('connector SDK major version should be 1', async () => {
@@ -51,6 +71,116 @@ describe('connector unit tests', () => {
         )
     })
 
+    it('should execute stateful stdAccountList as a delta aggregation', async () => {
+        const chunks: any[] = []
+        const state = { "version": 1, "lastAggregation": new Date().toISOString(), "memberIds": [100, 42] }
+        const ownershipsSpy = jest.spyOn(DiscourseClient.prototype, 'getGroupOwnerships')
+        const badgeGrantsSpy = jest.spyOn(DiscourseClient.prototype, 'getBadgeGrants')
+        await _withConfig({ ...mockConfig, deltaAggregation: true }, async () => {
+            await (await connector())._exec(
+                StandardCommand.StdAccountList,
+                {},
+                { "stateful": true, "state": state },
+                new PassThrough({ objectMode: true }).on('data', (chunk) => chunks.push(chunk))
+            )
+        })
+
+        expect(chunks.length).toBe(2)
+        expect(chunks[0].data).toStrictEqual({ "identity": "42", "deleted": true, "attributes": {} })
+        expect(chunks[1].type).toBe('state')
+        expect(chunks[1].data.memberIds).toStrictEqual([100])
+        expect(ownershipsSpy).not.toBeCalled()
+        expect(badgeGrantsSpy).not.toBeCalled()
+    })
+
+    it('should send the targets of staff actions in a delta aggregation', async () => {
+        const chunks: any[] = []
+        const state = { "version": 1, "lastAggregation": new Date().toISOString(), "memberIds": [100] }
+        jest.spyOn(DiscourseClient.prototype, 'getStaffActionTargetIds').mockResolvedValueOnce(new Set([100]))
+        await _withConfig({ ...mockConfig, deltaAggregation: true }, async () => {
+            await (await connector())._exec(
+                StandardCommand.StdAccountList,
+                {},
+                { "stateful": true, "state": state },
+                new PassThrough({ objectMode: true }).on('data', (chunk) => chunks.push(chunk))
+            )
+        })
+
+        expect(chunks.length).toBe(2)
+        expect(chunks[0].data.identity).toBe("100")
+        expect(chunks[1].type).toBe('state')
+    })
+
+    it('should run a full aggregation when the staff action logs cannot be read', async () => {
+        const state = { "version": 1, "lastAggregation": new Date().toISOString(), "memberIds": [100] }
+        jest.spyOn(DiscourseClient.prototype, 'getStaffActionTargetIds').mockRejectedValueOnce(new Error('forbidden'))
+        const badgeGrantsSpy = jest.spyOn(DiscourseClient.prototype, 'getBadgeGrants')
+        const badgeGrantsCalls = badgeGrantsSpy.mock.calls.length
+        await _withConfig({ ...mockConfig, deltaAggregation: true }, async () => {
+            await (await connector())._exec(
+                StandardCommand.StdAccountList,
+                {},
+                { "stateful": true, "state": state },
+                new PassThrough({ objectMode: true })
+            )
+        })
+
+        expect(badgeGrantsSpy.mock.calls.length).toBe(badgeGrantsCalls + 1)
+    })
+
+    it('should execute stdAccountRead by external id', async () => {
+        await (await connector())._exec(
+            StandardCommand.StdAccountRead,
+            {},
+            {"identity": "E1305"},
+            new PassThrough({ objectMode: true }).on('data', (chunk) => {
+                expect(chunk.data.identity).toStrictEqual("1305")
+                expect(chunk.data.attributes.externalId).toStrictEqual("E1305")
+            })
+        )
+    })
+
+    it('should execute stdAccountRead by numeric external id', async () => {
+        const externalIdSpy = jest.spyOn(DiscourseClient.prototype, 'getUserByExternalId')
+        jest.spyOn(DiscourseClient.prototype, 'getUser').mockRejectedValueOnce(new NotFoundError('Failed to retrieve user 4711'))
+
+        await (await connector())._exec(StandardCommand.StdAccountRead, {}, {"identity": "4711"}, new PassThrough({ objectMode: true }))
+        await (await connector())._exec(StandardCommand.StdAccountRead, {}, {"identity": "external:100"}, new PassThrough({ objectMode: true }))
+
+        expect(externalIdSpy).toBeCalledWith('4711')
+        expect(externalIdSpy).toBeCalledWith('100')
+        externalIdSpy.mockRestore()
+    })
+
+    it('should execute stdAccountRead with user field mappings', async () => {
+        await _withConfig({ ...mockConfig, userFieldMappings: ['department:3', 'remoteWorker:5:confirm', 'locations:6:multiselect'] }, async () => {
+            await (await connector())._exec(
+                StandardCommand.StdAccountRead,
+                {},
+                {"identity": "1305"},
+                new PassThrough({ objectMode: true }).on('data', (chunk) => {
+                    expect(chunk.data.attributes.department).toStrictEqual("Engineering")
+                    expect(chunk.data.attributes.remoteWorker).toStrictEqual(true)
+                    expect(chunk.data.attributes.locations).toStrictEqual(["Austin", "Remote"])
+                })
+            )
+        })
+    })
+
+    it('should execute stdAccountRead with the discovered user fields', async () => {
+        const chunks: any[] = []
+        await (await connector())._exec(
+            StandardCommand.StdAccountRead,
+            {},
+            {"identity": "1305"},
+            new PassThrough({ objectMode: true }).on('data', (chunk) => chunks.push(chunk))
+        )
+
+        expect(chunks[0].data.attributes.department).toStrictEqual("Engineering")
+        expect(chunks[0].data.attributes.remoteWorker).toStrictEqual(true)
+        expect(chunks[0].data.attributes.officeLocations).toStrictEqual(["Austin", "Remote"])
+    })
+
     it('should execute stdAccountRead', async () => {
         await (await connector())._exec(
             StandardCommand.StdAccountRead,
@@ -118,6 +248,23 @@ describe('connector unit tests', () => {
         )
     })
 
+    it('should only update the changed user fields', async () => {
+        const updateSpy = jest.spyOn(DiscourseClient.prototype, 'updateUser')
+        await _withConfig({ ...mockConfig, employeeIdFieldId: '1' }, async () => {
+            await (await connector())._exec(
+                StandardCommand.StdAccountUpdate,
+                {},
+                {
+                    "identity": "1305",
+                    "changes": [{ "op": "Set", "attribute": "department", "value": "Sales" }]
+                },
+                new PassThrough({ objectMode: true })
+            )
+        })
+
+        expect(updateSpy.mock.calls[updateSpy.mock.calls.length - 1][1].user_fields).toStrictEqual({ "3": "Sales" })
+    })
+
     it('should execute stdAccountDelete', async () => {
         await (await connector())._exec(
             StandardCommand.StdAccountDelete,
@@ -134,7 +281,7 @@ describe('connector unit tests', () => {
             {},
             {"attributes": {"identity": "test"}, "changes": [{"op": "Add","attribute": "", "value": "" }]},
             new PassThrough({ objectMode: true }).on('data', (chunk) => 
-            expect(chunk.data).toStrictEqual({"attributes": {"id": "1:admins","name": "admins",},"identity": "1:admins", "type":"group", "uuid": "1:admins",}))
+            expect(chunk.data).toStrictEqual({"attributes": adminsEntitlementAttributes,"identity": "1:admins", "type":"group", "uuid": "1:admins",}))
         )
     })
 
@@ -144,7 +291,193 @@ describe('connector unit tests', () => {
             {},
             {"attributes": {"identity": "test"}, "changes": [{"op": "Add","attribute": "", "value": "" }]},
             new PassThrough({ objectMode: true }).on('data', (chunk) => 
-            expect(chunk.data).toStrictEqual({"attributes": {"id": "1:admins", "name": "admins",},"identity": "1:admins", "type":"group", "uuid": "1:admins",}))
+            expect(chunk.data).toStrictEqual({"attributes": adminsEntitlementAttributes,"identity": "1:admins", "type":"group", "uuid": "1:admins",}))
+        )
+    })
+
+    it('should read the category permissions once for the group entitlements', async () => {
+        const categoriesSpy = jest.spyOn(DiscourseClient.prototype, 'getCategories')
+        const categoriesCalls = categoriesSpy.mock.calls.length
+        const discourseConnector = await connector()
+        for (let i = 0; i < 2; i++) {
+            await discourseConnector._exec(
+                StandardCommand.StdEntitlementRead,
+                {},
+                {"identity": "1:admins", "type": "group"},
+                new PassThrough({ objectMode: true }).on('data', (chunk) =>
+                expect(chunk.data.identity).toBe("1:admins"))
+            )
+        }
+
+        expect(categoriesSpy.mock.calls.length).toBe(categoriesCalls + 1)
+    })
+
+    it('should execute discourse:group:create', async () => {
+        await (await connector())._exec(
+            'discourse:group:create',
+            {},
+            {"attributes": {"name": "admins", "visibilityLevel": "logged_on_users"}},
+            new PassThrough({ objectMode: true }).on('data', (chunk) => {
+                expect(chunk.data.identity).toStrictEqual("1:admins")
+                expect(chunk.data.attributes.categoryPermissions).toStrictEqual([])
+            })
+        )
+    })
+
+    it('should execute discourse:group:delete', async () => {
+        await (await connector())._exec(
+            'discourse:group:delete',
+            {},
+            {"identity": "1:admins"},
+            new PassThrough({ objectMode: true }).on('data', (chunk) =>
+            expect(chunk.data).toStrictEqual({}))
+        )
+    })
+
+    it('should execute discourse:user:silence', async () => {
+        await (await connector())._exec(
+            'discourse:user:silence',
+            {},
+            {"identity": "1305", "reason": "Spam", "durationDays": 7},
+            new PassThrough({ objectMode: true }).on('data', (chunk) =>
+            expect(chunk.data.identity).toStrictEqual("1305"))
+        )
+    })
+
+    it('should reject discourse:user:silence without a reason', async () => {
+        await expect((await connector())._exec(
+            'discourse:user:silence',
+            {},
+            {"identity": "1305"},
+            new PassThrough({ objectMode: true })
+        )).rejects.toThrow('identity and reason are required to silence a user')
+    })
+
+    it('should execute discourse:user:unsilence', async () => {
+        await (await connector())._exec(
+            'discourse:user:unsilence',
+            {},
+            {"identity": "1305"},
+            new PassThrough({ objectMode: true }).on('data', (chunk) =>
+            expect(chunk.data.identity).toStrictEqual("1305"))
+        )
+    })
+
+    it('should execute stdEntitlementList for group owners', async () => {
+        await (await connector())._exec(
+            StandardCommand.StdEntitlementList,
+            {},
+            {"type": "group-owner"},
+            new PassThrough({ objectMode: true }).on('data', (chunk) =>
+            expect(chunk.data.type).toStrictEqual("group-owner"))
+        )
+    })
+
+    it('should execute stdEntitlementList for trust levels', async () => {
+        const chunks: any[] = []
+        await (await connector())._exec(
+            StandardCommand.StdEntitlementList,
+            {},
+            {"type": "trustLevel"},
+            new PassThrough({ objectMode: true }).on('data', (chunk) => chunks.push(chunk))
         )
+
+        expect(chunks.map(chunk => chunk.data.identity)).toStrictEqual(["TL0", "TL1", "TL2", "TL3", "TL4"])
+    })
+
+    it('should execute stdEntitlementRead for badges', async () => {
+        await (await connector())._exec(
+            StandardCommand.StdEntitlementRead,
+            {},
+            {"type": "badge", "identity": "104:IdentityNow Certified"},
+            new PassThrough({ objectMode: true }).on('data', (chunk) =>
+            expect(chunk.data.attributes.badgeType).toStrictEqual("Gold"))
+        )
+    })
+
+    it('should execute stdEntitlementList for categories', async () => {
+        const chunks: any[] = []
+        await (await connector())._exec(
+            StandardCommand.StdEntitlementList,
+            {},
+            {"type": "category"},
+            new PassThrough({ objectMode: true }).on('data', (chunk) => chunks.push(chunk))
+        )
+
+        expect(chunks.map(chunk => chunk.data.identity)).toStrictEqual(["4:Announcements", "7:Security", "8:Incidents"])
+        expect(chunks[0].data.attributes.permissions).toStrictEqual(["staff:full", "everyone:readonly", "business_development:readonly"])
+    })
+
+    it('should execute stdEntitlementList for roles', async () => {
+        const chunks: any[] = []
+        await (await connector())._exec(
+            StandardCommand.StdEntitlementList,
+            {},
+            {"type": "role"},
+            new PassThrough({ objectMode: true }).on('data', (chunk) => chunks.push(chunk))
+        )
+
+        expect(chunks.map(chunk => chunk.data.identity)).toStrictEqual(["admin", "moderator"])
+    })
+
+    it('should execute stdAccountDiscoverSchema', async () => {
+        await _withConfig({ ...mockConfig, employeeIdFieldId: '1', userFieldMappings: ['department:3:dropdown'] }, async () => {
+            await (await connector())._exec(
+                StandardCommand.StdAccountDiscoverSchema,
+                {},
+                undefined,
+                new PassThrough({ objectMode: true }).on('data', (chunk) => {
+                    const names = chunk.data.attributes.map((attribute: any) => attribute.name)
+                    expect(names).toContain("department")
+                    expect(names).toContain("officeLocations")
+                    expect(names).not.toContain("employeeID")
+                })
+            )
+        })
+    })
+
+    it('should execute stdAccountDisable', async () => {
+        await (await connector())._exec(
+            StandardCommand.StdAccountDisable,
+            {},
+            {"identity": "1305"},
+            new PassThrough({ objectMode: true }).on('data', (chunk) =>
+            expect(chunk.data.identity).toStrictEqual("1305"))
+        )
+    })
+
+    it('should execute stdAccountEnable', async () => {
+        await (await connector())._exec(
+            StandardCommand.StdAccountEnable,
+            {},
+            {"identity": "1305"},
+            new PassThrough({ objectMode: true }).on('data', (chunk) =>
+            expect(chunk.data.identity).toStrictEqual("1305"))
+        )
+    })
+
+    it('should execute stdAccountUnlock', async () => {
+        await (await connector())._exec(
+            StandardCommand.StdAccountUnlock,
+            {},
+            {"identity": "1305"},
+            new PassThrough({ objectMode: true }).on('data', (chunk) =>
+            expect(chunk.data.identity).toStrictEqual("1305"))
+        )
+    })
+
+    it('should not send the password reset email when the unlock fails', async () => {
+        jest.spyOn(DiscourseClient.prototype, 'unlockUser').mockResolvedValueOnce(false)
+        const forgotPasswordSpy = jest.spyOn(DiscourseClient.prototype, 'forgotPassword')
+        await _withConfig({ ...mockConfig, unlockSendPasswordReset: true }, async () => {
+            await expect((await connector())._exec(
+                StandardCommand.StdAccountUnlock,
+                {},
+                {"identity": "1305"},
+                new PassThrough({ objectMode: true })
+            )).rejects.toThrow('Failed to unlock user')
+        })
+
+        expect(forgotPasswordSpy).not.toBeCalled()
     })
 })
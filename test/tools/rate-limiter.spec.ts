@@ -0,0 +1,47 @@
+import { RateLimiter } from '../../src/tools/rate-limiter'
+
+describe('test rate limiter', () => {
+  it('throttles requests once the bucket is empty', async () => {
+    // 600 requests per minute refill a token every 100 ms.
+    const rateLimiter = new RateLimiter(600)
+    for (let i = 0; i < 600; i++) {
+      await rateLimiter.acquire()
+    }
+
+    const start = Date.now()
+    await rateLimiter.acquire()
+    await rateLimiter.acquire()
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(150)
+  })
+
+  it('honors Retry-After in seconds and as a date', async () => {
+    const rateLimiter = new RateLimiter(0)
+
+    expect(rateLimiter.retryDelay(<any>{ response: { status: 429, headers: { 'retry-after': '2' } } })).toBe(2000)
+    const delay = rateLimiter.retryDelay(<any>{ response: { status: 429, headers: { 'retry-after': new Date(Date.now() + 5000).toUTCString() } } })
+    expect(delay).toBeGreaterThan(3000)
+    expect(delay).toBeLessThanOrEqual(5000)
+  })
+
+  it('honors the wait_seconds of Discourse errors', async () => {
+    const rateLimiter = new RateLimiter(0)
+
+    expect(rateLimiter.retryDelay(<any>{ response: { status: 429, headers: {}, data: { error_type: 'rate_limit', extras: { wait_seconds: 7 } } } })).toBe(7000)
+    expect(rateLimiter.retryDelay(<any>{ response: { status: 429, headers: {}, data: {} } })).toBeUndefined()
+  })
+
+  it('pauses every request while Discourse asks to wait', async () => {
+    const rateLimiter = new RateLimiter(0)
+    rateLimiter.retryDelay(<any>{ response: { status: 429, headers: {}, data: { extras: { wait_seconds: 0.03 } } } })
+
+    const start = Date.now()
+    await rateLimiter.acquire()
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(25)
+  })
+
+  it('rejects an invalid rate', async () => {
+    expect(() => new RateLimiter(-1)).toThrow()
+  })
+})
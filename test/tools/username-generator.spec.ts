@@ -0,0 +1,43 @@
+import { UsernameGenerator } from '../../src/tools/username-generator'
+
+const settings = { minLength: 3, maxLength: 20, unicode: false }
+
+describe('test username generator', () => {
+  it('normalizes usernames to the site rules', async () => {
+    const generator = new UsernameGenerator(settings, [])
+
+    expect(generator.normalize('José García')).toBe('Jose_Garcia')
+    expect(generator.normalize('.john..doe-')).toBe('john.doe')
+    expect(generator.normalize('a.very.long.username.for.discourse')).toBe('a.very.long.username')
+    expect(generator.normalize('jdoe.json')).toBe('jdoe_json')
+    expect(new UsernameGenerator({ ...settings, unicode: true }, []).normalize('Jürgen Groß')).toBe('Jürgen_Groß')
+  })
+
+  it('generates candidates from the patterns', async () => {
+    const generator = new UsernameGenerator(settings, ['{username}', '{username}{n}', '{firstName}.{lastName}'])
+    const candidates = [...generator.candidates({ id: -1, username: 'jdoe', name: 'John Doe' })]
+
+    expect(candidates.slice(0, 4)).toStrictEqual(['jdoe', 'jdoe1', 'John.Doe', 'jdoe2'])
+    expect(candidates[candidates.length - 1]).toBe('jdoe99')
+  })
+
+  it('tries the numbered patterns in turn', async () => {
+    const generator = new UsernameGenerator(settings, ['{username}{n}', '{firstName}.{lastName}{n}'])
+
+    expect([...generator.candidates({ id: -1, username: 'jdoe', name: 'John Doe' })].slice(0, 4)).toStrictEqual(['jdoe1', 'John.Doe1', 'jdoe2', 'John.Doe2'])
+  })
+
+  it('keeps numbered candidates within the maximum length', async () => {
+    const generator = new UsernameGenerator({ ...settings, maxLength: 6 }, ['{username}{n}'])
+    const candidates = [...generator.candidates({ id: -1, username: 'johndoe' })]
+
+    expect(candidates[0]).toBe('johnd1')
+    expect(candidates[9]).toBe('john10')
+  })
+
+  it('skips candidates that are too short or empty', async () => {
+    const generator = new UsernameGenerator(settings, ['{username}', '{lastName}{n}', '{username}{n}'])
+
+    expect([...generator.candidates({ id: -1, username: 'jo', name: 'Jo' })][0]).toBe('jo1')
+  })
+})
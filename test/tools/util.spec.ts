@@ -138,3 +138,347 @@ describe('test happy paths', () => {
 
 })
 
+
+describe('delta aggregation', () => {
+  it('readAggregationState ignores missing and stale states', async () => {
+    const util = new Util
+    expect(util.readAggregationState(undefined, 24)).toBeUndefined()
+    expect(util.readAggregationState({ "version": 0, "lastAggregation": new Date().toISOString(), "memberIds": [] }, 24)).toBeUndefined()
+    expect(util.readAggregationState({ "version": 1, "lastAggregation": "2022-01-01T00:00:00.000Z", "memberIds": [] }, 24)).toBeUndefined()
+
+    const lastAggregation = new Date().toISOString()
+    const state = util.readAggregationState({ "version": 1, "lastAggregation": lastAggregation, "memberIds": [100] }, 24)
+    expect(state?.lastAggregation).toBe(lastAggregation)
+    expect(state?.memberIds).toStrictEqual([100])
+  })
+
+  it('hasActivitySince', async () => {
+    const util = new Util
+    const user = { "id": 100, "created_at": "2021-03-01T17:17:37.230Z", "last_seen_at": "2022-01-28T15:27:14.171Z" }
+
+    expect(util.hasActivitySince(user, "2022-01-01T00:00:00.000Z")).toBeTruthy()
+    expect(util.hasActivitySince(user, "2022-02-01T00:00:00.000Z")).toBeFalsy()
+  })
+
+  it('deletedAccount', async () => {
+    const util = new Util
+    expect(util.deletedAccount(100)).toStrictEqual({ "identity": "100", "deleted": true, "attributes": {} })
+  })
+})
+
+describe('group entitlements', () => {
+  it('groupToEntitlement maps levels and owners', async () => {
+    const util = new Util
+    const group = { "id": 49, "name": "business_development", "full_name": "Business Development", "visibility_level": 2, "messageable_level": 99, "mentionable_level": 42 }
+
+    const res = util.groupToEntitlement(group, [{ "id": 1, "username": "test1" }])
+
+    expect(res.attributes.fullName).toBe("Business Development")
+    expect(res.attributes.visibilityLevel).toBe("members")
+    expect(res.attributes.membersVisibilityLevel).toBeNull()
+    expect(res.attributes.messageableLevel).toBe("everyone")
+    expect(res.attributes.mentionableLevel).toBe("42")
+    expect(res.attributes.owners).toStrictEqual(["test1"])
+  })
+})
+
+describe('group updates', () => {
+  it('attributesToGroupUpdate', async () => {
+    const util = new Util
+    const res = util.attributesToGroupUpdate({ "name": "team", "visibilityLevel": "members", "messageableLevel": 99, "publicAdmission": "true", "owners": ["test", "test2"] })
+
+    expect(res).toEqual({ "name": "team", "visibility_level": 2, "messageable_level": 99, "public_admission": true, "owner_usernames": "test,test2" })
+  })
+
+  it('attributesToGroupUpdate rejects unknown levels', async () => {
+    const util = new Util
+    expect(() => util.attributesToGroupUpdate({ "visibilityLevel": "everybody" })).toThrow('Invalid visibilityLevel: everybody')
+  })
+
+  it('parseGroupIdentity', async () => {
+    const util = new Util
+    expect(util.parseGroupIdentity("1:admins")).toEqual({ "id": 1, "name": "admins" })
+    expect(util.parseGroupIdentity("admins")).toEqual({ "id": -1, "name": "admins" })
+  })
+})
+
+describe('group ownership', () => {
+  it('accountToUser parses owned groups', async () => {
+    const util = new Util
+    const res = util.accountToUser({ "attributes": { "username": "test", "ownedGroups": "49:business_development" } }, undefined)
+
+    expect(res.owned_groups).toEqual([{ "id": 49, "name": "business_development" }])
+  })
+
+  it('accountAdd - owned groups', async () => {
+    const util = new Util
+    const account = { "attributes": { "username": "test", "ownedGroups": ["1:admins"] }, "identity": "identity", "uuid": "" }
+
+    util.accountAdd(account, { "op": AttributeChangeOp.Add, "attribute": "ownedGroups", "value": "49:business_development" })
+    expect(account.attributes.ownedGroups).toStrictEqual(["1:admins", "49:business_development"])
+  })
+})
+
+describe('trust levels', () => {
+  it('parseTrustLevel', async () => {
+    const util = new Util
+    expect(util.parseTrustLevel("TL3")).toBe(3)
+    expect(util.parseTrustLevel("0")).toBe(0)
+    expect(() => util.parseTrustLevel("TL5")).toThrow('Invalid trust level: TL5')
+    expect(() => util.parseTrustLevel("")).toThrow()
+  })
+
+  it('userToAccount exposes the trust level and its lock', async () => {
+    const util = new Util
+    const res = util.userToAccount({ "id": 100, "username": "test", "trust_level": 2, "manual_locked_trust_level": 2 }, undefined)
+
+    expect(res.attributes.trustLevel).toBe("TL2")
+    expect(res.attributes.trustLevelLocked).toBe(true)
+  })
+
+  it('accountAdd replaces the trust level', async () => {
+    const util = new Util
+    const account = util.userToAccount({ "id": 100, "username": "test", "trust_level": 1 }, undefined)
+
+    util.accountAdd(account, { "op": AttributeChangeOp.Add, "attribute": "trustLevel", "value": "TL3" })
+    expect(account.attributes.trustLevel).toBe("TL3")
+    expect(util.accountToUser(account, undefined).trust_level).toBe(3)
+  })
+
+  it('accountSet replaces the trust level', async () => {
+    const util = new Util
+    const account = util.userToAccount({ "id": 100, "username": "test", "trust_level": 1 }, undefined)
+
+    util.accountSet(account, { "op": AttributeChangeOp.Set, "attribute": "trustLevel", "value": "TL2" })
+    expect(util.accountToUser(account, undefined).trust_level).toBe(2)
+  })
+
+  it('accountRemove only revokes the current trust level', async () => {
+    const util = new Util
+    const account = util.userToAccount({ "id": 100, "username": "test", "trust_level": 2 }, undefined)
+
+    util.accountRemove(account, { "op": AttributeChangeOp.Remove, "attribute": "trustLevel", "value": "TL4" })
+    expect(account.attributes.trustLevel).toBe("TL2")
+    util.accountRemove(account, { "op": AttributeChangeOp.Remove, "attribute": "trustLevel", "value": "2" })
+    expect(account.attributes.trustLevel).toBeNull()
+    expect(util.accountToUser(account, undefined).trust_level).toBeUndefined()
+  })
+})
+
+describe('badges', () => {
+  it('badgeToEntitlement', async () => {
+    const util = new Util
+    const res = util.badgeToEntitlement({ "id": 104, "name": "IdentityNow Certified", "badge_type_id": 1, "grant_count": 12 })
+
+    expect(res.identity).toBe("104:IdentityNow Certified")
+    expect(res.attributes.badgeType).toBe("Gold")
+    expect(res.attributes.grantCount).toBe(12)
+    expect(res.attributes.enabled).toBe(true)
+  })
+
+  it('accountToUser parses badges', async () => {
+    const util = new Util
+    const res = util.accountToUser({ "attributes": { "username": "test", "badges": ["1:Basic", "104:IdentityNow Certified"] } }, undefined)
+
+    expect(res.badges).toEqual([{ "id": 1, "name": "Basic" }, { "id": 104, "name": "IdentityNow Certified" }])
+  })
+
+  it('accountToUser parses badge names with colons', async () => {
+    const util = new Util
+    const res = util.accountToUser({ "attributes": { "username": "test", "badges": ["105:Certified: Level 2"] } }, undefined)
+
+    expect(res.badges).toEqual([{ "id": 105, "name": "Certified: Level 2" }])
+    expect(() => util.accountToUser({ "attributes": { "username": "test", "badges": ["Basic"] } }, undefined)).toThrow('Invalid badge format: Basic')
+  })
+})
+
+describe('categories', () => {
+  const categories = [
+    { "id": 4, "name": "Announcements", "group_permissions": [{ "permission_type": 1, "group_name": "staff" }, { "permission_type": 3, "group_name": "everyone" }] },
+    { "id": 8, "name": "Incidents", "slug": "incidents", "read_restricted": true, "parent_category_id": 7, "group_permissions": [{ "permission_type": 2, "group_name": "staff" }] }
+  ]
+
+  it('categoryToEntitlement', async () => {
+    const util = new Util
+    const res = util.categoryToEntitlement(categories[1])
+
+    expect(res.identity).toBe("8:Incidents")
+    expect(res.type).toBe("category")
+    expect(res.attributes.readRestricted).toBe(true)
+    expect(res.attributes.parentCategoryId).toBe(7)
+    expect(res.attributes.permissions).toStrictEqual(["staff:create_post"])
+  })
+
+  it('categoryPermissionsByGroup', async () => {
+    const util = new Util
+    const res = util.categoryPermissionsByGroup(categories)
+
+    expect(res.get("staff")).toStrictEqual(["Announcements:full", "Incidents:create_post"])
+    expect(res.get("everyone")).toStrictEqual(["Announcements:readonly"])
+    expect(res.get("admins")).toBeUndefined()
+  })
+})
+
+describe('roles', () => {
+  it('accountToUser parses roles', async () => {
+    const util = new Util
+    const res = util.accountToUser({ "attributes": { "username": "test", "roles": ["moderator"] } }, undefined)
+
+    expect(res.admin).toBe(false)
+    expect(res.moderator).toBe(true)
+    expect(util.accountToUser({ "attributes": { "username": "test" } }, undefined).admin).toBeUndefined()
+    expect(() => util.accountToUser({ "attributes": { "username": "test", "roles": "owner" } }, undefined)).toThrow('Invalid role: owner')
+  })
+
+  it('userToAccount exposes the roles', async () => {
+    const util = new Util
+    const res = util.userToAccount({ "id": 100, "username": "test", "admin": true, "moderator": false }, undefined)
+
+    expect(res.attributes.roles).toStrictEqual(["admin"])
+  })
+
+  it('groupToEntitlement marks automatic groups as not requestable', async () => {
+    const util = new Util
+
+    expect(util.groupToEntitlement({ "id": 11, "name": "trust_level_1", "automatic": true }).attributes.requestable).toBe(false)
+    expect(util.groupToEntitlement({ "id": 49, "name": "business_development" }).attributes.requestable).toBe(true)
+  })
+})
+
+describe('user field mappings', () => {
+  const util = new Util
+  const userFields = util.parseUserFieldMappings(['department:3', 'remoteWorker:5:confirm', 'locations:6:multiselect'])
+
+  it('parseUserFieldMappings', async () => {
+    expect(userFields).toStrictEqual([
+      { attribute: 'department', fieldId: '3', type: 'text' },
+      { attribute: 'remoteWorker', fieldId: '5', type: 'confirm' },
+      { attribute: 'locations', fieldId: '6', type: 'multiselect' }
+    ])
+    expect(util.parseUserFieldMappings(undefined)).toStrictEqual([])
+    expect(() => util.parseUserFieldMappings(['department'])).toThrow('Invalid user field mapping: department')
+    expect(() => util.parseUserFieldMappings(['department:3:number'])).toThrow('Invalid user field mapping')
+  })
+
+  it('accountToUser coerces the mapped attributes', async () => {
+    const res = util.accountToUser({ "attributes": { "username": "test", "department": "Sales", "remoteWorker": true, "locations": "Austin" } }, '1', userFields)
+
+    expect(res.user_fields).toStrictEqual({ "1": undefined, "3": "Sales", "5": "true", "6": ["Austin"] })
+    expect(util.accountToUser({ "attributes": { "username": "test" } }, undefined, userFields).user_fields).toStrictEqual({})
+  })
+
+  it('userToAccount coerces the mapped user fields', async () => {
+    const res = util.userToAccount({ "id": 100, "username": "test", "user_fields": { "3": "Sales", "6": "Austin" } }, undefined, userFields)
+
+    expect(res.attributes.department).toBe("Sales")
+    expect(res.attributes.remoteWorker).toBeNull()
+    expect(res.attributes.locations).toStrictEqual(["Austin"])
+    expect(util.userToAccount({ "id": 100, "username": "test", "user_fields": { "5": "false" } }, undefined, userFields).attributes.remoteWorker).toBe(false)
+  })
+
+  it('unset confirm fields stay unset', async () => {
+    const account = util.userToAccount({ "id": 100, "username": "test", "user_fields": {} }, undefined, userFields)
+
+    expect(util.accountToUser(account, undefined, userFields).user_fields?.["5"]).toBeNull()
+  })
+
+  it('accountAdd - multiselect user field', async () => {
+    const account = util.userToAccount({ "id": 100, "username": "test", "user_fields": { "6": ["Austin"] } }, undefined, userFields)
+
+    util.accountAdd(account, { "op": AttributeChangeOp.Add, "attribute": "locations", "value": "Remote" })
+    expect(account.attributes.locations).toStrictEqual(["Austin", "Remote"])
+    util.accountRemove(account, { "op": AttributeChangeOp.Remove, "attribute": "locations", "value": "Austin" })
+    expect(account.attributes.locations).toStrictEqual(["Remote"])
+  })
+})
+
+describe('schema discovery', () => {
+  it('accountSchema adds one attribute per user field', async () => {
+    const util = new Util
+    const fields = [
+      { "id": 1, "name": "Employee ID", "field_type": "text" },
+      { "id": 3, "name": "Department", "field_type": "dropdown" },
+      { "id": 4, "name": "Cost Center", "description": "Your cost center", "field_type": "text", "editable": false, "requirement": "for_all_users" },
+      { "id": 5, "name": "Remote worker", "field_type": "confirm" },
+      { "id": 6, "name": "Office Locations", "field_type": "multiselect" },
+      { "id": 7, "name": "Title", "field_type": "text" }
+    ]
+    const res = util.accountSchema(fields, '1', util.parseUserFieldMappings(['dept:3:dropdown']))
+    const discovered = res.attributes.slice(-5)
+
+    expect(res.identityAttribute).toBe("id")
+    expect(res.attributes.filter(attribute => attribute.name == 'employeeId').length).toBe(1)
+    expect(discovered.map(attribute => attribute.name)).toStrictEqual(["dept", "costCenter", "remoteWorker", "officeLocations", "userField7"])
+    expect(discovered[1]).toStrictEqual({ name: "costCenter", type: "string", multi: false, required: true, description: "Your cost center (user field 4, text, not editable by the user)" })
+    expect(discovered[2].type).toBe("boolean")
+    expect(discovered[3].multi).toBe(true)
+  })
+  it('siteUserFieldMappings names every user field like the schema', async () => {
+    const util = new Util
+    const fields = [
+      { "id": 1, "name": "Employee ID", "field_type": "text" },
+      { "id": 3, "name": "Department", "field_type": "dropdown" },
+      { "id": 5, "name": "Remote worker", "field_type": "confirm" },
+      { "id": 7, "name": "Title", "field_type": "text" }
+    ]
+    const userFields = util.parseUserFieldMappings(['dept:3:dropdown', 'costCenter:4'])
+    const res = util.siteUserFieldMappings(fields, '1', userFields)
+
+    expect(res).toStrictEqual([
+      { attribute: "dept", fieldId: "3", type: "dropdown" },
+      { attribute: "remoteWorker", fieldId: "5", type: "confirm" },
+      { attribute: "userField7", fieldId: "7", type: "text" },
+      { attribute: "costCenter", fieldId: "4", type: "text" }
+    ])
+    expect(util.accountSchema(fields, '1', userFields).attributes.slice(-3).map(attribute => attribute.name)).toStrictEqual(res.slice(0, 3).map(mapping => mapping.attribute))
+    expect(util.userToAccount({ "id": 100, "username": "test", "user_fields": { "5": "true", "7": "Engineer" } }, '1', res).attributes.userField7).toBe("Engineer")
+  })
+})
+
+describe('account status', () => {
+  const util = new Util
+  const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
+  const lastWeek = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString()
+
+  it('suspended users are disabled but not locked', async () => {
+    const res = util.userToAccount({ "id": 100, "username": "test", "active": true, "suspended_till": nextWeek, "suspend_reason": "Spam" }, undefined)
+
+    expect(res.disabled).toBe(true)
+    expect(res.locked).toBe(false)
+    expect(res.attributes.status).toBe("suspended")
+    expect(res.attributes.suspendReason).toBe("Spam")
+  })
+
+  it('silenced users are locked but not disabled', async () => {
+    const res = util.userToAccount({ "id": 100, "username": "test", "active": true, "silenced_till": nextWeek }, undefined)
+
+    expect(res.disabled).toBe(false)
+    expect(res.locked).toBe(true)
+    expect(res.attributes.status).toBe("silenced")
+    expect(res.attributes.silencedTill).toBe(nextWeek)
+  })
+
+  it('silenced users are disabled when the disable strategy silences users', async () => {
+    const res = util.userToAccount({ "id": 100, "username": "test", "active": true, "silenced_till": nextWeek }, undefined, [], false, true)
+
+    expect(res.disabled).toBe(true)
+    expect(res.locked).toBe(false)
+    expect(res.attributes.status).toBe("silenced")
+  })
+
+  it('expired suspensions and silences are ignored', async () => {
+    const res = util.userToAccount({ "id": 100, "username": "test", "active": true, "suspended_till": lastWeek, "silenced_till": lastWeek }, undefined)
+
+    expect(res.disabled).toBe(false)
+    expect(res.locked).toBe(false)
+    expect(res.attributes.status).toBe("active")
+  })
+
+  it('userStatus', async () => {
+    expect(util.userStatus({ "id": 100, "active": false, "staged": true })).toBe("staged")
+    expect(util.userStatus({ "id": 100, "active": false })).toBe("deactivated")
+    expect(util.userStatus({ "id": 100, "active": true, "approved": false })).toBe("active")
+    expect(util.userStatus({ "id": 100, "active": true, "approved": false }, true)).toBe("unapproved")
+    expect(util.userToAccount({ "id": 100, "active": true, "approved": false }, undefined, [], true).locked).toBe(true)
+  })
+})
@@ -0,0 +1,35 @@
+import { WorkerPool } from '../../src/tools/worker-pool'
+
+describe('test worker pool', () => {
+  it('never runs more tasks than the concurrency', async () => {
+    const pool = new WorkerPool(2)
+    let running = 0
+    let maxRunning = 0
+    const done: number[] = []
+
+    for (let i = 0; i < 6; i++) {
+      await pool.submit(async () => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        running--
+        done.push(i)
+      })
+    }
+    await pool.drain()
+
+    expect(maxRunning).toBe(2)
+    expect(done.length).toBe(6)
+  })
+
+  it('rethrows the first task error', async () => {
+    const pool = new WorkerPool(1)
+    await pool.submit(async () => { throw new Error('failed') })
+
+    await expect(pool.drain()).rejects.toThrow('failed')
+  })
+
+  it('rejects an invalid concurrency', async () => {
+    expect(() => new WorkerPool(0)).toThrow()
+  })
+})